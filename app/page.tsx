@@ -1,200 +1,157 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useMemo, useReducer } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Calculator, AlertTriangle } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Calculator, AlertTriangle, ShieldAlert } from "lucide-react";
+import { AffordabilityPanel } from "@/components/affordability-panel";
+import { ArrearsPanel } from "@/components/arrears-panel";
+import { CompareOfferPanel } from "@/components/compare-offer-panel";
+import { EarlySettlementPanel } from "@/components/early-settlement-panel";
+import { FEE_TYPE_LABELS, FeesPanel } from "@/components/fees-panel";
+import { MonthOverridesPanel } from "@/components/month-overrides-panel";
+import { ScheduleTable } from "@/components/schedule-table";
+import { WhatIfMatrix } from "@/components/what-if-matrix";
+import {
+  calculatorReducer,
+  createCalculatorState,
+  deriveResult,
+  displayValue,
+  parseDownPayment,
+  parseNumber,
+  suggestOptionsFor,
+  type BalloonKind,
+  type DownPaymentKind,
+  type GraduationKind,
+  type InputField,
+  type SuggestionMode,
+} from "@/lib/calculator";
+import { formatMoney, formatNumber, formatPercent } from "@/lib/format";
+import {
+  buildSchedule,
+  createRateResolver,
+  largestInstallment,
+  monthsPerPeriod,
+  PRODUCT_CATEGORIES,
+  toPiasters,
+  type InstallmentRounding,
+  type InterestMethod,
+  type PaymentFrequency,
+  type PlanField,
+  type PeriodRounding,
+} from "@/lib/installments";
+import { formatWarning } from "@/lib/messages";
 
-export default function InstallmentCalculator() {
-  const [purchasePrice, setPurchasePrice] = useState<string>("");
-  const [downPayment, setDownPayment] = useState<string>("");
-  const [isUpdated, setIsUpdated] = useState<boolean>(false);
-  const [repaymentPeriod, setRepaymentPeriod] = useState<string>("12");
-  const [monthlyInstallment, setMonthlyInstallment] = useState<string>("");
-  const [isFocus, setIsFocus] = useState<string>("");
-  const [calculatedField, setCalculatedField] = useState<string>("");
-  const [error, setError] = useState<string>("");
-  const [suggestions, setSuggestions] = useState<
-    { installment_value: string; repayment_period: number }[]
-  >([]);
-  const [results, setResults] = useState<{
-    totalWithProfit: number;
-    totalPaid: number;
-    missingAmount: number;
-  } | null>(null);
-
-  const MONTHLY_PROFIT_RATE = 0.040; // 4% monthly
-
-  const parseNumber = (value: string): number => {
-    return Number.parseFloat(value) || 0;
-  };
-
-  const formatNumber = (num: number): string => {
-    return new Intl.NumberFormat("ar-EG").format(Math.round(num));
-  };
-
-  const calculateInstallment = (
-    price: number,
-    down: number,
-    period: number
-  ): number => {
-    const remainingAmount = price - down;
-    const totalWithProfit =
-      remainingAmount * (1 + MONTHLY_PROFIT_RATE * period);
-    return totalWithProfit / period;
-  };
-
-  const calculateDownPayment = (
-    price: number,
-    installment: number,
-    period: number
-  ): number => {
-    const totalInstallments = installment * period;
-    const totalWithoutDown = price * (1 + MONTHLY_PROFIT_RATE * period);
-    return totalWithoutDown - totalInstallments;
-  };
-
-  const calculatePeriod = (
-    price: number,
-    down: number,
-    installment: number
-  ): number => {
-    const remainingAmount = price - down;
-    // Solving: installment * period = remainingAmount * (1 + MONTHLY_PROFIT_RATE * period)
-    // This is a linear equation: installment * period = remainingAmount + remainingAmount * MONTHLY_PROFIT_RATE * period
-    // Rearranging: period * (installment - remainingAmount * MONTHLY_PROFIT_RATE) = remainingAmount
-    const denominator = installment - remainingAmount * MONTHLY_PROFIT_RATE;
-    if (denominator <= 0) return 0;
-    return remainingAmount / denominator;
-  };
-
-  const validateAndCalculate = () => {
-    const price = parseNumber(purchasePrice || "0");
-    const down = parseNumber(downPayment === "" ? "0" : downPayment);
-    const period = parseNumber(repaymentPeriod || "1");
-    const installment = parseNumber(monthlyInstallment || "0");
-
-    if (price <= 0) {
-      setError("يجب إدخال سعر الشراء");
-      setResults(null);
-      return;
-    }
-
-    const filledFields = [
-      downPayment ? "down" : "",
-      repaymentPeriod ? "period" : "",
-      monthlyInstallment ? "installment" : "",
-    ].filter(Boolean);
-
-    if (
-      (downPayment === "" && filledFields.length < 1) ||
-      (downPayment !== "" && filledFields.length < 1)
-    ) {
-      setError(
-        "يجب ملء حقلين على الأقل من الثلاثة (الدفعة المقدمة، القسط الشهري، فترة السداد)"
-      );
-      setResults(null);
-      return;
-    }
-
-    let calculatedDown = down;
-    let calculatedPeriod = period;
-    let calculatedInstallment = installment;
-    let newCalculatedField = "";
-
-    // Calculate based on which fields are filled
-    if (
-      downPayment &&
-      repaymentPeriod &&
-      !monthlyInstallment &&
-      isFocus !== "installment"
-    ) {
-      calculatedInstallment = calculateInstallment(price, down, period);
-      setMonthlyInstallment(calculatedInstallment.toFixed(2));
-      newCalculatedField = "installment";
-    } else if (
-      downPayment &&
-      monthlyInstallment &&
-      !repaymentPeriod &&
-      isFocus !== "period"
-    ) {
-      calculatedPeriod = calculatePeriod(price, down, installment);
-      setRepaymentPeriod(calculatedPeriod.toFixed(0));
-      newCalculatedField = "period";
-    }
-
-    setCalculatedField(newCalculatedField);
-
-    // Validate if total payments cover the price plus profit
-    const finalDown = calculatedDown;
-    const finalPeriod = calculatedPeriod;
-    const finalInstallment = calculatedInstallment;
+const INTEREST_METHOD_LABELS: Record<InterestMethod, string> = {
+  flat: "ربح ثابت",
+  reducing: "ربح متناقص",
+};
 
-    const remainingAmount = price - finalDown;
-    const totalWithProfit =
-      price + remainingAmount * MONTHLY_PROFIT_RATE * finalPeriod;
-    const totalPaid = finalDown + finalInstallment * finalPeriod;
-    const missingAmount = totalWithProfit - totalPaid;
+// Wording for each frequency: its name, one period, a count of periods,
+// the installment and the budget per period
+const FREQUENCY_LABELS: Record<
+  PaymentFrequency,
+  {
+    name: string;
+    per: string;
+    count: string;
+    installment: string;
+    budget: string;
+  }
+> = {
+  weekly: {
+    name: "أسبوعي",
+    per: "أسبوع",
+    count: "أسابيع",
+    installment: "القسط الأسبوعي",
+    budget: "الميزانية الأسبوعية",
+  },
+  biweekly: {
+    name: "كل أسبوعين",
+    per: "أسبوعين",
+    count: "أقساط",
+    installment: "القسط كل أسبوعين",
+    budget: "الميزانية كل أسبوعين",
+  },
+  monthly: {
+    name: "شهري",
+    per: "شهر",
+    count: "أشهر",
+    installment: "القسط الشهري",
+    budget: "الميزانية الشهرية",
+  },
+  quarterly: {
+    name: "ربع سنوي",
+    per: "ربع سنة",
+    count: "أقساط",
+    installment: "القسط ربع السنوي",
+    budget: "الميزانية ربع السنوية",
+  },
+  semiannual: {
+    name: "نصف سنوي",
+    per: "نصف سنة",
+    count: "أقساط",
+    installment: "القسط نصف السنوي",
+    budget: "الميزانية نصف السنوية",
+  },
+};
 
-    if (isFocus === "period") {
-      calculatedInstallment = calculateInstallment(price, down, period);
-      setMonthlyInstallment(calculatedInstallment.toFixed(2));
-      newCalculatedField = "installment";
-    } else if (isFocus === "installment") {
-      calculatedPeriod = calculatePeriod(price, down, installment);
-      setRepaymentPeriod(calculatedPeriod.toFixed(0));
-      newCalculatedField = "period";
-    } else if (isFocus === "down") {
-      calculatedInstallment = calculateInstallment(price, down, period);
-      setMonthlyInstallment(calculatedInstallment.toFixed(2));
-      newCalculatedField = "installment";
-    } else if (isFocus === "price") {
-      calculatedInstallment = calculateInstallment(price, down, period);
-      setMonthlyInstallment(calculatedInstallment.toFixed(2));
-      newCalculatedField = "installment";
-    }
+const ROUNDING_STEPS = [
+  { step: 1, label: "بدون تقريب" },
+  { step: 500, label: "لأقرب 5 جنيه" },
+  { step: 1000, label: "لأقرب 10 جنيه" },
+  { step: 5000, label: "لأقرب 50 جنيه" },
+];
 
-    setResults({
-      totalWithProfit,
-      totalPaid,
-      missingAmount,
-    });
+const SOLVE_FOR_LABELS: Record<PlanField, string> = {
+  installment: "القسط",
+  period: "المدة",
+  down: "المقدم",
+  price: "السعر",
+  rate: "النسبة",
+};
 
-    const numbers = [3, 6, 9, 12, 15, 18];
-
-    const newSuggestions = numbers.map((n) => ({
-      installment_value: calculateInstallment(price, down, n).toFixed(2),
-      repayment_period: n,
-    }));
-
-    setSuggestions(newSuggestions);
+export default function InstallmentCalculator() {
+  const [state, dispatch] = useReducer(calculatorReducer, undefined, () =>
+    createCalculatorState()
+  );
+  const result = useMemo(() => deriveResult(state), [state]);
+  const { inputs, solveFor, installmentRounding } = state;
+  const labels = FREQUENCY_LABELS[state.frequency];
+  const results = result.status === "solved" ? result : null;
+  // Info-level warnings are already visible in the summary itself
+  const alerts =
+    result.status === "idle"
+      ? []
+      : result.warnings.filter((w) => w.severity !== "info");
 
-    if (missingAmount > 1) {
-      // Allow for small rounding differences
-      setError(
-        ` المبلغ غير كافي لتغطية سعر المنتج . تحتاج إلى: ${formatNumber(
-          missingAmount
-        )} جنيه`
-      );
-    } else {
-      setError("");
-    }
-  };
+  const valueOf = (field: PlanField) => displayValue(state, result, field);
+  const setInput = (field: InputField, value: string) =>
+    dispatch({ type: "set-input", field, value });
 
-  useEffect(() => {
-    if (!isUpdated) {
-      setDownPayment("0");
-      setIsUpdated(true);
-    }
-  });
+  const suggestOptions = useMemo(
+    () => (results ? results.suggestOptions : suggestOptionsFor(state)),
+    [results, state]
+  );
 
-  useEffect(() => {
-    if (purchasePrice) {
-      validateAndCalculate();
-    }
-  }, [purchasePrice, downPayment, repaymentPeriod, monthlyInstallment]);
+  const schedule = useMemo(
+    () => (results ? buildSchedule(results.plan, state.firstDueDate) : []),
+    [results, state.firstDueDate]
+  );
+  const adjustedRow =
+    results && results.plan.adjustment !== 0
+      ? schedule.find((row) => row.isAdjusted)
+      : undefined;
 
   return (
     <div
@@ -212,119 +169,38 @@ export default function InstallmentCalculator() {
         </div>
 
         <div className="grid lg:grid-cols-2 gap-8">
-          {/* Input Form */}
-          {/* <Card className="shadow-lg">
+          {/* Installments Suggestions */}
+          <Card className="shadow-lg">
             <CardHeader>
-              <CardTitle className="text-xl text-center">
-                بيانات الحساب
-              </CardTitle>
+              <CardTitle className="text-xl text-center">احسب الآن</CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="space-y-2">
-                <Label htmlFor="purchasePrice" className="text-sm font-medium">
-                  سعر الكاش *
-                </Label>
-                <Input
-                  id="purchasePrice"
-                  type="number"
-                  placeholder="أدخل سعر الكاش"
-                  value={purchasePrice}
-                  onFocus={() => setIsFocus("price")}
-                  onBlur={() => setIsFocus("")}
-                  onChange={(e) => setPurchasePrice(e.target.value)}
-                  className="text-right"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="downPayment" className="text-sm font-medium">
-                  المقدم (ان وجد)
-                  {calculatedField === "down" && (
-                    <span className="text-green-600 text-xs mr-2">
-                      (محسوبة تلقائياً)
-                    </span>
-                  )}
-                </Label>
-                <Input
-                  id="downPayment"
-                  type="number"
-                  placeholder="أدخل الدفعة المقدمة"
-                  value={downPayment || ""}
-                  onFocus={() => setIsFocus("down")}
-                  onBlur={() => setIsFocus("")}
-                  onChange={(e) => setDownPayment(e.target.value)}
-                  className={`text-right ${
-                    calculatedField === "down"
-                      ? "bg-green-50 border-green-200"
-                      : ""
-                  }`}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label
-                  htmlFor="repaymentPeriod"
-                  className="text-sm font-medium"
+                <Label className="text-xs font-medium">احسب</Label>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={solveFor}
+                  onValueChange={(value) => {
+                    if (value) {
+                      dispatch({
+                        type: "set-solve-for",
+                        solveFor: value as PlanField,
+                        keep: valueOf(solveFor),
+                      });
+                    }
+                  }}
+                  className="grid grid-cols-5"
                 >
-                  فترة السداد
-                  {calculatedField === "period" && (
-                    <span className="text-green-600 text-xs mr-2">
-                      (محسوبة تلقائياً)
-                    </span>
+                  {(Object.keys(SOLVE_FOR_LABELS) as PlanField[]).map(
+                    (field) => (
+                      <ToggleGroupItem key={field} value={field}>
+                        {SOLVE_FOR_LABELS[field]}
+                      </ToggleGroupItem>
+                    )
                   )}
-                </Label>
-                <Input
-                  id="repaymentPeriod"
-                  type="number"
-                  placeholder="أدخل عدد الشهور"
-                  value={repaymentPeriod || ""}
-                  onFocus={() => setIsFocus("period")}
-                  onBlur={() => setIsFocus("")}
-                  onChange={(e) => setRepaymentPeriod(e.target.value || "")}
-                  className={`text-right ${
-                    calculatedField === "period"
-                      ? "bg-green-50 border-green-200"
-                      : ""
-                  }`}
-                />
+                </ToggleGroup>
               </div>
-
-              <div className="space-y-2">
-                <Label
-                  htmlFor="monthlyInstallment"
-                  className="text-sm font-medium"
-                >
-                  القسط الشهري
-                  {calculatedField === "installment" && (
-                    <span className="text-green-600 text-xs mr-2">
-                      (محسوب تلقائياً)
-                    </span>
-                  )}
-                </Label>
-                <Input
-                  id="monthlyInstallment"
-                  type="number"
-                  placeholder="أدخل قيمة القسط الشهري"
-                  value={monthlyInstallment || ""}
-                  onFocus={() => setIsFocus("installment")}
-                  onBlur={() => setIsFocus("")}
-                  onChange={(e) => setMonthlyInstallment(e.target.value)}
-                  className={`text-right ${
-                    calculatedField === "installment"
-                      ? "bg-green-50 border-green-200"
-                      : ""
-                  }`}
-                />
-              </div>
-            </CardContent>
-          </Card> */}
-
-          {/* Installments Suggestions */}
-          <Card className="shadow-lg">
-            <CardHeader>
-              <CardTitle className="text-xl text-center">احسب الآن</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-6">
               <div className="grid grid-cols-2 gap-2">
                 <div className="space-y-2">
                   <Label
@@ -332,87 +208,529 @@ export default function InstallmentCalculator() {
                     className="text-xs font-medium"
                   >
                     سعر الكاش *
+                    {solveFor === "price" && (
+                      <span className="text-green-600 text-xs mr-2">
+                        (محسوب تلقائياً)
+                      </span>
+                    )}
                   </Label>
                   <Input
                     id="purchasePrice"
                     type="number"
                     placeholder="أدخل سعر الكاش"
-                    value={purchasePrice}
-                    onFocus={() => setIsFocus("price")}
-                    onBlur={() => setIsFocus("")}
-                    onChange={(e) => setPurchasePrice(e.target.value)}
-                    className="text-right"
+                    value={valueOf("price")}
+                    readOnly={solveFor === "price"}
+                    onChange={(e) => setInput("price", e.target.value)}
+                    className={`text-right ${
+                      solveFor === "price" ? "bg-green-50 border-green-200" : ""
+                    }`}
                   />
                 </div>
 
                 <div className="space-y-2">
                   <Label htmlFor="downPayment" className="text-xs font-medium">
                     المقدم (ان وجد)
-                    {calculatedField === "down" && (
+                    {solveFor === "down" && (
+                      <span className="text-green-600 text-xs mr-2">
+                        (محسوبة تلقائياً)
+                      </span>
+                    )}
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="downPayment"
+                      type="number"
+                      placeholder="أدخل الدفعة المقدمة"
+                      value={valueOf("down")}
+                      readOnly={solveFor === "down"}
+                      onChange={(e) => setInput("downPayment", e.target.value)}
+                      className={`text-right ${
+                        solveFor === "down"
+                          ? "bg-green-50 border-green-200"
+                          : ""
+                      }`}
+                    />
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      value={state.downPaymentKind}
+                      // A percentage needs the price, so not while solving it
+                      disabled={solveFor === "price"}
+                      onValueChange={(value) => {
+                        if (value) {
+                          dispatch({
+                            type: "set-down-payment-kind",
+                            kind: value as DownPaymentKind,
+                          });
+                        }
+                      }}
+                    >
+                      <ToggleGroupItem value="amount">مبلغ</ToggleGroupItem>
+                      <ToggleGroupItem value="share">%</ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="category" className="text-xs font-medium">
+                    فئة المنتج
+                  </Label>
+                  <Select
+                    value={state.category}
+                    onValueChange={(category) =>
+                      dispatch({ type: "set-category", category })
+                    }
+                  >
+                    <SelectTrigger id="category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRODUCT_CATEGORIES.map((item) => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {item.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="monthlyRate" className="text-xs font-medium">
+                    نسبة الربح الشهرية %
+                    {solveFor === "rate" && (
                       <span className="text-green-600 text-xs mr-2">
                         (محسوبة تلقائياً)
                       </span>
                     )}
                   </Label>
                   <Input
-                    id="downPayment"
+                    id="monthlyRate"
                     type="number"
-                    placeholder="أدخل الدفعة المقدمة"
-                    value={downPayment === "0" ? "" : downPayment || ""}
-                    onFocus={() => setIsFocus("down")}
-                    onBlur={() => setIsFocus("")}
-                    onChange={(e) => {
-                      if (e.target.value === "") {
-                        setDownPayment("0");
-                      } else {
-                        setDownPayment(e.target.value);
-                      }
-                    }}
+                    // Rate card bands are in months, the period in installments
+                    placeholder={(
+                      createRateResolver(state.category)(
+                        (parseNumber(valueOf("period")) || 1) *
+                          monthsPerPeriod(state.frequency)
+                      ) * 100
+                    ).toFixed(2)}
+                    value={valueOf("rate")}
+                    readOnly={solveFor === "rate"}
+                    onChange={(e) => setInput("monthlyRate", e.target.value)}
                     className={`text-right ${
-                      calculatedField === "down"
-                        ? "bg-green-50 border-green-200"
-                        : ""
+                      solveFor === "rate" ? "bg-green-50 border-green-200" : ""
                     }`}
                   />
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label className="text-xs font-medium">
+                  طريقة احتساب الربح
+                </Label>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={state.method}
+                  onValueChange={(value) => {
+                    if (value) {
+                      dispatch({
+                        type: "set-method",
+                        method: value as InterestMethod,
+                      });
+                    }
+                  }}
+                  className="grid grid-cols-2"
+                >
+                  <ToggleGroupItem value="flat">
+                    {INTEREST_METHOD_LABELS.flat}
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="reducing">
+                    {INTEREST_METHOD_LABELS.reducing}
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs font-medium">دورية السداد</Label>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={state.frequency}
+                  onValueChange={(value) => {
+                    if (value) {
+                      dispatch({
+                        type: "set-frequency",
+                        frequency: value as PaymentFrequency,
+                      });
+                    }
+                  }}
+                  className="grid grid-cols-5"
+                >
+                  {(Object.keys(FREQUENCY_LABELS) as PaymentFrequency[]).map(
+                    (frequency) => (
+                      <ToggleGroupItem key={frequency} value={frequency}>
+                        {FREQUENCY_LABELS[frequency].name}
+                      </ToggleGroupItem>
+                    )
+                  )}
+                </ToggleGroup>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="graceMonths" className="text-xs font-medium">
+                    فترة السماح (شهور)
+                  </Label>
+                  <Input
+                    id="graceMonths"
+                    type="number"
+                    placeholder="بدون فترة سماح"
+                    value={state.graceMonths}
+                    onChange={(e) =>
+                      dispatch({
+                        type: "set-grace-months",
+                        value: e.target.value,
+                      })
+                    }
+                    className="text-right"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium">
+                    الربح خلال فترة السماح
+                  </Label>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={state.graceChargesProfit ? "charged" : "free"}
+                    onValueChange={(value) => {
+                      if (value) {
+                        dispatch({
+                          type: "set-grace-profit",
+                          chargeProfit: value === "charged",
+                        });
+                      }
+                    }}
+                    className="grid grid-cols-2"
+                  >
+                    <ToggleGroupItem value="free">بدون ربح</ToggleGroupItem>
+                    <ToggleGroupItem value="charged">بربح</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="balloon" className="text-xs font-medium">
+                    دفعة أخيرة كبيرة
+                  </Label>
+                  <Input
+                    id="balloon"
+                    type="number"
+                    placeholder="بدون دفعة أخيرة"
+                    value={state.balloon}
+                    onChange={(e) =>
+                      dispatch({ type: "set-balloon", value: e.target.value })
+                    }
+                    className="text-right"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium">
+                    قيمة الدفعة الأخيرة
+                  </Label>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={state.balloonKind}
+                    onValueChange={(value) => {
+                      if (value) {
+                        dispatch({
+                          type: "set-balloon-kind",
+                          kind: value as BalloonKind,
+                        });
+                      }
+                    }}
+                    className="grid grid-cols-2"
+                  >
+                    <ToggleGroupItem value="amount">مبلغ</ToggleGroupItem>
+                    <ToggleGroupItem value="share">% من السعر</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-2">
+                  <Label
+                    htmlFor="graduationStep"
+                    className="text-xs font-medium"
+                  >
+                    تدرج القسط (بالسالب للتخفيض)
+                  </Label>
+                  <Input
+                    id="graduationStep"
+                    type="number"
+                    placeholder="أقساط ثابتة"
+                    value={state.graduationStep}
+                    onChange={(e) =>
+                      dispatch({
+                        type: "set-graduation-step",
+                        value: e.target.value,
+                      })
+                    }
+                    className="text-right"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs font-medium">قيمة التدرج</Label>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={state.graduationKind}
+                    onValueChange={(value) => {
+                      if (value) {
+                        dispatch({
+                          type: "set-graduation-kind",
+                          kind: value as GraduationKind,
+                        });
+                      }
+                    }}
+                    className="grid grid-cols-2"
+                  >
+                    <ToggleGroupItem value="percent">%</ToggleGroupItem>
+                    <ToggleGroupItem value="amount">مبلغ</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label
+                    htmlFor="graduationEvery"
+                    className="text-xs font-medium"
+                  >
+                    كل (عدد الأقساط)
+                  </Label>
+                  <Input
+                    id="graduationEvery"
+                    type="number"
+                    min={1}
+                    value={state.graduationEvery}
+                    onChange={(e) =>
+                      dispatch({
+                        type: "set-graduation-every",
+                        value: e.target.value,
+                      })
+                    }
+                    className="text-right"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="roundingStep" className="text-xs font-medium">
+                  تقريب القسط
+                </Label>
+                <div className="grid grid-cols-3 gap-2">
+                  <Select
+                    value={String(installmentRounding.step)}
+                    onValueChange={(value) =>
+                      dispatch({
+                        type: "set-installment-rounding",
+                        rounding: {
+                          ...installmentRounding,
+                          step: Number(value),
+                        },
+                      })
+                    }
+                  >
+                    <SelectTrigger id="roundingStep">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROUNDING_STEPS.map((item) => (
+                        <SelectItem key={item.step} value={String(item.step)}>
+                          {item.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={installmentRounding.mode}
+                    onValueChange={(value) => {
+                      if (value) {
+                        dispatch({
+                          type: "set-installment-rounding",
+                          rounding: {
+                            ...installmentRounding,
+                            mode: value as InstallmentRounding["mode"],
+                          },
+                        });
+                      }
+                    }}
+                  >
+                    <ToggleGroupItem value="half-up">لأقرب</ToggleGroupItem>
+                    <ToggleGroupItem value="up">لأعلى</ToggleGroupItem>
+                  </ToggleGroup>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={installmentRounding.remainderTo}
+                    onValueChange={(value) => {
+                      if (value) {
+                        dispatch({
+                          type: "set-installment-rounding",
+                          rounding: {
+                            ...installmentRounding,
+                            remainderTo:
+                              value as InstallmentRounding["remainderTo"],
+                          },
+                        });
+                      }
+                    }}
+                  >
+                    <ToggleGroupItem value="first">الفرق أولاً</ToggleGroupItem>
+                    <ToggleGroupItem value="last">الفرق أخيراً</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+              </div>
             </CardContent>
             <CardContent className="space-y-4">
               {results && (
                 <>
-                  {purchasePrice &&
-                    downPayment &&
-                    repaymentPeriod &&
-                    monthlyInstallment &&
-                    suggestions && (
-                      <>
-                        <div className="text-center p-3 flex items-center justify-between bg-slate-300 dark:bg-gray-800 rounded">
-                          <div className="font-medium text-gray-800 dark:text-gray-300">
-                            قيمة القسط
+                  <div className="grid grid-cols-2 gap-2">
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      value={state.suggestionMode}
+                      onValueChange={(value) => {
+                        if (value) {
+                          dispatch({
+                            type: "set-suggestion-mode",
+                            mode: value as SuggestionMode,
+                          });
+                        }
+                      }}
+                      className="grid grid-cols-2"
+                    >
+                      <ToggleGroupItem value="period">
+                        حسب المدة
+                      </ToggleGroupItem>
+                      <ToggleGroupItem value="budget">
+                        حسب الميزانية
+                      </ToggleGroupItem>
+                    </ToggleGroup>
+                    {state.suggestionMode === "budget" && (
+                      <Input
+                        id="budget"
+                        type="number"
+                        placeholder={`أقصى قسط لكل ${labels.per}`}
+                        value={state.budget}
+                        onChange={(e) =>
+                          dispatch({
+                            type: "set-budget",
+                            value: e.target.value,
+                          })
+                        }
+                        className="text-right"
+                      />
+                    )}
+                  </div>
+                  {state.suggestionMode === "period" ? (
+                    <>
+                      <div className="text-center p-3 flex items-center justify-between bg-slate-300 dark:bg-gray-800 rounded">
+                        <div className="font-medium text-gray-800 dark:text-gray-300">
+                          قيمة القسط
+                        </div>
+                        <div className="font-medium text-gray-800 dark:text-gray-300">
+                          التكلفة السنوية الفعلية
+                        </div>
+                        <div className="font-medium text-gray-800 dark:text-gray-300">
+                          فترة السداد
+                        </div>
+                      </div>
+                      {results.suggestions.map((ele, key) => (
+                        <button
+                          key={key}
+                          type="button"
+                          onClick={() =>
+                            dispatch({
+                              type: "apply-suggestion",
+                              period: ele.period,
+                              keep: valueOf(solveFor),
+                            })
+                          }
+                          className="w-full text-center p-3 flex items-center justify-between bg-slate-100 hover:bg-slate-200 dark:bg-gray-600 dark:hover:bg-gray-500 rounded"
+                        >
+                          <div className="font-medium text-gray-600 dark:text-gray-300">
+                            {formatMoney(ele.installment)} جنيه / {labels.per}
                           </div>
-                          <div className="font-medium text-gray-800 dark:text-gray-300">
-                            فترة السداد
+                          <div className="text-xs text-gray-600 dark:text-gray-300">
+                            {formatPercent(ele.disclosure.apr)} /{" "}
+                            {formatPercent(ele.disclosure.effectiveAnnualRate)}
                           </div>
+                          <div className="font-medium text-gray-600 dark:text-gray-300">
+                            {formatNumber(ele.period)} {labels.count}
+                          </div>
+                        </button>
+                      ))}
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-center p-3 grid grid-cols-5 bg-slate-300 dark:bg-gray-800 rounded">
+                        <div className="font-medium text-gray-800 dark:text-gray-300">
+                          قيمة القسط
                         </div>
-                        {suggestions.map((ele, key) => (
-                          <div
-                            key={key}
-                            className="text-center p-3 flex items-center justify-between bg-slate-100 dark:bg-gray-600 rounded"
-                          >
-                            <div className="font-medium text-gray-600 dark:text-gray-300">
-                              {formatNumber(parseNumber(ele.installment_value))} جنيه / شهر
-                            </div>
-                            <div className="font-medium text-gray-600 dark:text-gray-300">
-                              {formatNumber(parseNumber(String(ele.repayment_period)))} أشهر
-                            </div>
+                        <div className="font-medium text-gray-800 dark:text-gray-300">
+                          التكلفة السنوية الفعلية
+                        </div>
+                        <div className="font-medium text-gray-800 dark:text-gray-300">
+                          المقدم
+                        </div>
+                        <div className="font-medium text-gray-800 dark:text-gray-300">
+                          فترة السداد
+                        </div>
+                        <div className="font-medium text-gray-800 dark:text-gray-300">
+                          الإجمالي
+                        </div>
+                      </div>
+                      {results.budgetSuggestions.map((ele) => (
+                        <button
+                          key={`${ele.downPayment}-${ele.period}`}
+                          type="button"
+                          onClick={() =>
+                            dispatch({
+                              type: "apply-suggestion",
+                              period: ele.period,
+                              downPayment: ele.downPayment,
+                              keep: valueOf(solveFor),
+                            })
+                          }
+                          className="w-full text-center p-3 grid grid-cols-5 bg-slate-100 hover:bg-slate-200 dark:bg-gray-600 dark:hover:bg-gray-500 rounded"
+                        >
+                          <div className="font-medium text-gray-600 dark:text-gray-300">
+                            {formatMoney(ele.installment)}
                           </div>
-                        ))}
-                      </>
-                    )}
+                          <div className="text-xs text-gray-600 dark:text-gray-300">
+                            {formatPercent(ele.disclosure.apr)} /{" "}
+                            {formatPercent(ele.disclosure.effectiveAnnualRate)}
+                          </div>
+                          <div className="text-gray-600 dark:text-gray-300">
+                            {formatMoney(ele.downPayment)}
+                          </div>
+                          <div className="text-gray-600 dark:text-gray-300">
+                            {formatNumber(ele.period)} {labels.count}
+                          </div>
+                          <div className="font-medium text-gray-600 dark:text-gray-300">
+                            {formatMoney(ele.totalCost)}
+                          </div>
+                        </button>
+                      ))}
+                      {state.budget !== "" &&
+                        results.budgetSuggestions.length === 0 && (
+                          <div className="text-center text-sm text-gray-500 dark:text-gray-400">
+                            لا توجد خطة تناسب هذه الميزانية
+                          </div>
+                        )}
+                    </>
+                  )}
                 </>
               )}
             </CardContent>
-            {!purchasePrice && (
+            {result.status === "idle" && (
               <div className="text-center text-gray-500 dark:text-gray-400 h-[200px] leading-[150px] select-none">
                 أدخل سعر الشراء لبدء الحساب
               </div>
@@ -425,7 +743,7 @@ export default function InstallmentCalculator() {
                     className="text-xs font-medium"
                   >
                     فترة السداد
-                    {calculatedField === "period" && (
+                    {solveFor === "period" && (
                       <span className="text-green-600 text-xs mr-2">
                         (محسوبة تلقائياً)
                       </span>
@@ -434,13 +752,12 @@ export default function InstallmentCalculator() {
                   <Input
                     id="repaymentPeriod"
                     type="number"
-                    placeholder="أدخل عدد الشهور"
-                    value={repaymentPeriod || ""}
-                    onFocus={() => setIsFocus("period")}
-                    onBlur={() => setIsFocus("")}
-                    onChange={(e) => setRepaymentPeriod(e.target.value || "")}
+                    placeholder="أدخل عدد الأقساط"
+                    value={valueOf("period")}
+                    readOnly={solveFor === "period"}
+                    onChange={(e) => setInput("period", e.target.value)}
                     className={`text-right ${
-                      calculatedField === "period"
+                      solveFor === "period"
                         ? "bg-green-50 border-green-200"
                         : ""
                     }`}
@@ -452,8 +769,8 @@ export default function InstallmentCalculator() {
                     htmlFor="monthlyInstallment"
                     className="text-xs font-medium"
                   >
-                    القسط الشهري
-                    {calculatedField === "installment" && (
+                    {solveFor === "down" ? labels.budget : labels.installment}
+                    {solveFor === "installment" && (
                       <span className="text-green-600 text-xs mr-2">
                         (محسوب تلقائياً)
                       </span>
@@ -462,19 +779,44 @@ export default function InstallmentCalculator() {
                   <Input
                     id="monthlyInstallment"
                     type="number"
-                    placeholder="أدخل قيمة القسط الشهري"
-                    value={monthlyInstallment || ""}
-                    onFocus={() => setIsFocus("installment")}
-                    onBlur={() => setIsFocus("")}
-                    onChange={(e) => setMonthlyInstallment(e.target.value)}
+                    placeholder={`أدخل قيمة ${labels.installment}`}
+                    value={valueOf("installment")}
+                    readOnly={solveFor === "installment"}
+                    onChange={(e) => setInput("installment", e.target.value)}
                     className={`text-right ${
-                      calculatedField === "installment"
+                      solveFor === "installment"
                         ? "bg-green-50 border-green-200"
                         : ""
                     }`}
                   />
                 </div>
               </div>
+              {solveFor === "period" && (
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={state.periodRounding}
+                  onValueChange={(value) => {
+                    if (value) {
+                      dispatch({
+                        type: "set-period-rounding",
+                        periodRounding: value as PeriodRounding,
+                      });
+                    }
+                  }}
+                  className="grid grid-cols-3"
+                >
+                  <ToggleGroupItem value="final-installment">
+                    قسط أخير أقل
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="up">
+                    تقريب المدة لأعلى
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="down">
+                    تقريب المدة لأسفل
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              )}
             </CardContent>
           </Card>
 
@@ -486,78 +828,308 @@ export default function InstallmentCalculator() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              {alerts.map((warning) => (
+                <Alert
+                  key={`${warning.code}-${warning.field ?? ""}`}
+                  variant="destructive"
+                >
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription className="text-right">
+                    {formatWarning(warning)}
+                  </AlertDescription>
+                </Alert>
+              ))}
+              {results?.policyViolations.map((warning) => (
+                <Alert
+                  key={warning.code}
+                  className="border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20"
+                >
+                  <ShieldAlert className="h-4 w-4" />
+                  <AlertDescription className="text-right">
+                    {formatWarning(warning)}
+                  </AlertDescription>
+                </Alert>
+              ))}
               {results && (
                 <div className="space-y-4">
-                  {error && (
-                    <Alert variant="destructive">
-                      <AlertTriangle className="h-4 w-4" />
-                      <AlertDescription className="text-right">
-                        {error}
-                      </AlertDescription>
-                    </Alert>
-                  )}{" "}
-                  {purchasePrice &&
-                    downPayment &&
-                    repaymentPeriod &&
-                    monthlyInstallment &&
-                    !error && (
+                  {alerts.length === 0 &&
+                    results.policyViolations.length === 0 && (
                       <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-lg border border-green-200 dark:border-green-800">
                         <h3 className="font-semibold text-green-800 dark:text-green-200 text-center">
                           ✅ الحساب صحيح
                         </h3>
                       </div>
                     )}
-                  {purchasePrice &&
-                    downPayment &&
-                    repaymentPeriod &&
-                    monthlyInstallment && (
-                      <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg space-y-3">
-                        <h3 className="font-semibold text-center mb-3">
-                          ملخص التقسيط
-                        </h3>
-                        <div className="grid grid-cols-2 gap-4 text-sm">
-                          <div className="text-center p-3 bg-white dark:bg-gray-700 rounded">
-                            <div className="font-medium text-gray-600 dark:text-gray-300">
-                              سعر الشراء
-                            </div>
-                            <div className="text-lg font-bold">
-                              {formatNumber(parseNumber(purchasePrice))}
-                            </div>
+                  <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg space-y-3">
+                    <h3 className="font-semibold text-center mb-3">
+                      ملخص التقسيط
+                    </h3>
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                      <div className="text-center p-3 bg-white dark:bg-gray-700 rounded">
+                        <div className="font-medium text-gray-600 dark:text-gray-300">
+                          سعر الشراء
+                        </div>
+                        <div className="text-lg font-bold">
+                          {formatMoney(results.plan.price)}
+                        </div>
+                      </div>
+                      <div className="text-center p-3 bg-white dark:bg-gray-700 rounded">
+                        <div className="font-medium text-gray-600 dark:text-gray-300">
+                          الدفعة المقدمة
+                        </div>
+                        <div className="text-lg font-bold">
+                          {formatMoney(results.plan.downPayment)}
+                        </div>
+                      </div>
+                      <div className="text-center p-3 bg-white dark:bg-gray-700 rounded">
+                        <div className="font-medium text-gray-600 dark:text-gray-300">
+                          عدد الأقساط
+                        </div>
+                        <div className="text-lg font-bold">
+                          {formatNumber(results.totals.installmentCount)}{" "}
+                          {labels.count}
+                        </div>
+                      </div>
+                      <div className="text-center p-3 bg-white dark:bg-gray-700 rounded">
+                        <div className="font-medium text-gray-600 dark:text-gray-300">
+                          {results.plan.graduation
+                            ? "القسط الأول"
+                            : labels.installment}
+                        </div>
+                        <div className="text-lg font-bold">
+                          {formatMoney(results.plan.installment)}
+                        </div>
+                      </div>
+                      {!Number.isInteger(results.plan.period) && (
+                        <div className="col-span-2 text-center p-3 bg-amber-50 dark:bg-amber-900/20 rounded">
+                          <div className="font-medium text-gray-600 dark:text-gray-300">
+                            {formatNumber(results.totals.installmentCount - 1)}{" "}
+                            قسط كامل ثم قسط أخير
                           </div>
-                          <div className="text-center p-3 bg-white dark:bg-gray-700 rounded">
-                            <div className="font-medium text-gray-600 dark:text-gray-300">
-                              الدفعة المقدمة
-                            </div>
-                            <div className="text-lg font-bold">
-                              {formatNumber(parseNumber(downPayment ?? ""))}
-                            </div>
+                          <div className="text-lg font-bold">
+                            {formatMoney(results.totals.finalInstallment)}
                           </div>
-                          <div className="text-center p-3 bg-white dark:bg-gray-700 rounded">
-                            <div className="font-medium text-gray-600 dark:text-gray-300">
-                              عدد الأقساط
-                            </div>
-                            <div className="text-lg font-bold">
-                              {formatNumber(parseNumber(repaymentPeriod ?? ""))} شهر
-                            </div>
+                        </div>
+                      )}
+                      {adjustedRow && (
+                        <div className="col-span-2 text-center p-3 bg-amber-50 dark:bg-amber-900/20 rounded">
+                          <div className="font-medium text-gray-600 dark:text-gray-300">
+                            {adjustedRow.number ===
+                            results.plan.grace.months + 1
+                              ? "القسط الأول بعد التقريب"
+                              : "القسط الأخير بعد التقريب"}
                           </div>
-                          <div className="text-center p-3 bg-white dark:bg-gray-700 rounded">
-                            <div className="font-medium text-gray-600 dark:text-gray-300">
-                              القسط الشهري
-                            </div>
-                            <div className="text-lg font-bold">
-                              {formatNumber(
-                                parseNumber(monthlyInstallment ?? "")
-                              )}
+                          <div className="text-lg font-bold">
+                            {formatMoney(adjustedRow.installment)}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            فرق التقريب: {formatMoney(results.plan.adjustment)}
+                          </div>
+                        </div>
+                      )}
+                      {results.plan.grace.months > 0 && (
+                        <div className="col-span-2 text-center p-3 bg-amber-50 dark:bg-amber-900/20 rounded">
+                          <div className="font-medium text-gray-600 dark:text-gray-300">
+                            فترة السماح
+                          </div>
+                          <div className="text-lg font-bold">
+                            {formatNumber(results.plan.grace.months)} شهر{" "}
+                            {results.plan.grace.chargeProfit
+                              ? "بربح"
+                              : "بدون ربح"}
+                          </div>
+                        </div>
+                      )}
+                      {results.plan.graduation && (
+                        <div className="col-span-2 text-center p-3 bg-blue-50 dark:bg-blue-900/20 rounded">
+                          <div className="font-medium text-gray-600 dark:text-gray-300">
+                            {results.plan.graduation.step < 0
+                              ? "أقساط متناقصة"
+                              : "أقساط متزايدة"}{" "}
+                            كل {formatNumber(results.plan.graduation.every)} قسط
+                          </div>
+                          <div className="text-lg font-bold">
+                            {formatMoney(results.plan.installment)} ←{" "}
+                            {formatMoney(results.totals.finalInstallment)}
+                          </div>
+                        </div>
+                      )}
+                      {results.plan.balloon > 0 && (
+                        <div className="col-span-2 text-center p-3 bg-blue-50 dark:bg-blue-900/20 rounded">
+                          <div className="font-medium text-gray-600 dark:text-gray-300">
+                            الدفعة الأخيرة مع القسط الأخير
+                          </div>
+                          <div className="text-lg font-bold">
+                            {formatMoney(results.plan.balloon)}
+                          </div>
+                        </div>
+                      )}
+                      {results.totals.fees.length > 0 && (
+                        <div className="col-span-2 text-center p-3 bg-blue-50 dark:bg-blue-900/20 rounded space-y-1">
+                          <div className="font-medium text-gray-600 dark:text-gray-300">
+                            الرسوم والتأمين
+                          </div>
+                          {results.totals.fees.map((fee, index) => (
+                            <div
+                              key={index}
+                              className="flex justify-between text-xs text-gray-500 dark:text-gray-400"
+                            >
+                              <span>{FEE_TYPE_LABELS[fee.type]}</span>
+                              <span>{formatMoney(fee.amount)}</span>
                             </div>
+                          ))}
+                          <div className="text-lg font-bold">
+                            {formatMoney(results.totals.upfrontFees)} مع المقدم
+                            — {formatMoney(results.totals.financedFees)} مع
+                            الأقساط
                           </div>
                         </div>
+                      )}
+                      <div className="text-center p-3 bg-white dark:bg-gray-700 rounded">
+                        <div className="font-medium text-gray-600 dark:text-gray-300">
+                          طريقة احتساب الربح
+                        </div>
+                        <div className="text-lg font-bold">
+                          {INTEREST_METHOD_LABELS[results.plan.method]}
+                        </div>
                       </div>
-                    )}
+                      <div className="text-center p-3 bg-white dark:bg-gray-700 rounded">
+                        <div className="font-medium text-gray-600 dark:text-gray-300">
+                          نسبة الربح الشهرية
+                        </div>
+                        <div className="text-lg font-bold">
+                          {formatPercent(results.plan.monthlyRate)}
+                        </div>
+                      </div>
+                      <div className="text-center p-3 bg-white dark:bg-gray-700 rounded">
+                        <div className="font-medium text-gray-600 dark:text-gray-300">
+                          معدل الفائدة السنوي (APR)
+                        </div>
+                        <div className="text-lg font-bold">
+                          {formatPercent(results.disclosure.apr)}
+                        </div>
+                      </div>
+                      <div className="text-center p-3 bg-white dark:bg-gray-700 rounded">
+                        <div className="font-medium text-gray-600 dark:text-gray-300">
+                          المعدل السنوي الفعلي
+                        </div>
+                        <div className="text-lg font-bold">
+                          {formatPercent(
+                            results.disclosure.effectiveAnnualRate
+                          )}
+                        </div>
+                      </div>
+                      <div className="col-span-2 text-center p-3 bg-white dark:bg-gray-700 rounded">
+                        <div className="font-medium text-gray-600 dark:text-gray-300">
+                          إجمالي المبلغ بالأرباح
+                        </div>
+                        <div className="text-lg font-bold">
+                          {formatMoney(results.totals.totalWithProfit)}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
                 </div>
               )}
             </CardContent>
           </Card>
+
+          {/* Affordability */}
+          <AffordabilityPanel
+            // Affordability is judged against monthly income, on the
+            // largest installment of a step-up plan
+            installment={
+              results
+                ? Math.round(
+                    largestInstallment(
+                      results.plan.installment,
+                      results.totals.installmentCount,
+                      results.plan.graduation
+                    ) / monthsPerPeriod(results.plan.frequency)
+                  )
+                : null
+            }
+            downPayment={
+              results ? results.plan.downPayment : parseDownPayment(state)
+            }
+            options={suggestOptions}
+            countLabel={labels.count}
+          />
+
+          {/* Competitor Offer */}
+          <CompareOfferPanel category={state.category} method={state.method} />
+        </div>
+
+        {/* Fees and Insurance */}
+        <div className="mt-8">
+          <FeesPanel
+            entries={state.fees}
+            onAdd={() => dispatch({ type: "add-fee" })}
+            onChange={(index, fee) => dispatch({ type: "set-fee", index, fee })}
+            onRemove={(index) => dispatch({ type: "remove-fee", index })}
+          />
         </div>
+
+        {/* Skipped and Bonus Months */}
+        <div className="mt-8">
+          <MonthOverridesPanel
+            entries={state.calendar}
+            onChange={(month, kind, amount) =>
+              dispatch({ type: "set-month-override", month, kind, amount })
+            }
+          />
+        </div>
+
+        {/* What-if Matrix */}
+        {results && (
+          <div className="mt-8">
+            <WhatIfMatrix
+              rows={results.matrix}
+              budget={toPiasters(parseNumber(state.budget))}
+              budgetValue={state.budget}
+              budgetLabel={labels.budget}
+              countLabel={labels.count}
+              onBudgetChange={(value) =>
+                dispatch({ type: "set-budget", value })
+              }
+              onSelect={(period, downPayment) =>
+                dispatch({
+                  type: "apply-suggestion",
+                  period,
+                  downPayment,
+                  keep: valueOf(solveFor),
+                })
+              }
+            />
+          </div>
+        )}
+
+        {/* Amortization Schedule */}
+        {schedule.length > 0 && (
+          <div className="mt-8">
+            <ScheduleTable
+              rows={schedule}
+              firstDueDate={state.firstDueDate}
+              onFirstDueDateChange={(date) =>
+                dispatch({ type: "set-first-due-date", date })
+              }
+            />
+          </div>
+        )}
+
+        {/* Early Settlement */}
+        {schedule.length > 0 && (
+          <div className="mt-8">
+            <EarlySettlementPanel rows={schedule} />
+          </div>
+        )}
+
+        {/* Arrears */}
+        {schedule.length > 0 && (
+          <div className="mt-8">
+            <ArrearsPanel rows={schedule} />
+          </div>
+        )}
       </div>
     </div>
   );
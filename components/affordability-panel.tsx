@@ -0,0 +1,136 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatMoney, formatNumber, formatPercent } from "@/lib/format";
+import {
+  checkAffordability,
+  DEFAULT_MAX_DEBT_BURDEN,
+  maxAffordablePrices,
+  toPiasters,
+  type Piasters,
+  type SuggestOptions,
+} from "@/lib/installments";
+
+interface AffordabilityPanelProps {
+  /** Installment of the current plan, or null when there is no plan. */
+  installment: Piasters | null;
+  downPayment: Piasters;
+  /** Terms the calculator suggests plans on, so the prices match its quotes. */
+  options: SuggestOptions;
+  /** Wording for a count of installment periods. */
+  countLabel: string;
+}
+
+const PROFILE_FIELDS = [
+  { id: "monthlyIncome", label: "صافي الدخل الشهري" },
+  { id: "obligations", label: "الالتزامات الشهرية الحالية" },
+  { id: "maxDebtBurden", label: "أقصى نسبة للأقساط من الدخل %" },
+] as const;
+
+type ProfileField = (typeof PROFILE_FIELDS)[number]["id"];
+
+export function AffordabilityPanel({
+  installment,
+  downPayment,
+  options,
+  countLabel,
+}: AffordabilityPanelProps) {
+  const [profile, setProfile] = useState<Record<ProfileField, string>>({
+    monthlyIncome: "",
+    obligations: "",
+    maxDebtBurden: String(DEFAULT_MAX_DEBT_BURDEN * 100),
+  });
+
+  const assessment = useMemo(() => {
+    if (!profile.monthlyIncome) return null;
+    const parsed = {
+      monthlyIncome: toPiasters(Number.parseFloat(profile.monthlyIncome) || 0),
+      obligations: toPiasters(Number.parseFloat(profile.obligations) || 0),
+      maxDebtBurden: (Number.parseFloat(profile.maxDebtBurden) || 0) / 100,
+    };
+    return {
+      check:
+        installment === null ? null : checkAffordability(installment, parsed),
+      prices: maxAffordablePrices(parsed, downPayment, options),
+    };
+  }, [profile, installment, downPayment, options]);
+
+  return (
+    <Card className="shadow-lg h-fit">
+      <CardHeader>
+        <CardTitle className="text-xl text-center">القدرة على السداد</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2">
+          {PROFILE_FIELDS.map((field) => (
+            <div key={field.id} className="space-y-2">
+              <Label
+                htmlFor={`profile-${field.id}`}
+                className="text-xs font-medium"
+              >
+                {field.label}
+              </Label>
+              <Input
+                id={`profile-${field.id}`}
+                type="number"
+                value={profile[field.id]}
+                onChange={(e) =>
+                  setProfile({ ...profile, [field.id]: e.target.value })
+                }
+                className="text-right"
+              />
+            </div>
+          ))}
+        </div>
+        {assessment && (
+          <div className="space-y-4 text-sm">
+            {assessment.check && (
+              <div
+                className={`text-center p-3 rounded ${
+                  assessment.check.affordable
+                    ? "bg-green-50 dark:bg-green-900/20"
+                    : "bg-red-50 dark:bg-red-900/20"
+                }`}
+              >
+                <div className="font-medium text-gray-600 dark:text-gray-300">
+                  {assessment.check.affordable
+                    ? "الخطة الحالية في حدود القدرة على السداد"
+                    : "الخطة الحالية تتجاوز القدرة على السداد"}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  نسبة الأقساط من الدخل:{" "}
+                  {formatPercent(assessment.check.debtBurden)} — أقصى قسط متاح:{" "}
+                  {formatMoney(assessment.check.maxInstallment)} جنيه
+                </div>
+              </div>
+            )}
+            <div className="text-center p-3 flex items-center justify-between bg-slate-300 dark:bg-gray-800 rounded">
+              <div className="font-medium text-gray-800 dark:text-gray-300">
+                فترة السداد
+              </div>
+              <div className="font-medium text-gray-800 dark:text-gray-300">
+                أقصى سعر كاش
+              </div>
+            </div>
+            {assessment.prices.map((row) => (
+              <div
+                key={row.period}
+                className="text-center p-3 flex items-center justify-between bg-slate-100 dark:bg-gray-600 rounded"
+              >
+                <div className="font-medium text-gray-600 dark:text-gray-300">
+                  {formatNumber(row.period)} {countLabel}
+                </div>
+                <div className="font-medium text-gray-600 dark:text-gray-300">
+                  {formatMoney(row.maxPrice)} جنيه
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
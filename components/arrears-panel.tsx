@@ -0,0 +1,220 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format, isValid, parseISO } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDate, formatMoney, formatNumber } from "@/lib/format";
+import {
+  calculateArrears,
+  toPiasters,
+  type PaymentRecord,
+  type ScheduleRow,
+} from "@/lib/installments";
+
+interface ArrearsPanelProps {
+  rows: ScheduleRow[];
+}
+
+interface PaymentEntry {
+  date: string;
+  amount: string;
+}
+
+const FEE_FIELDS = [
+  { id: "fixed", label: "غرامة ثابتة" },
+  { id: "dailyRate", label: "غرامة يومية %" },
+  { id: "cap", label: "حد أقصى للغرامة" },
+  { id: "graceDays", label: "أيام السماح" },
+] as const;
+
+type FeeField = (typeof FEE_FIELDS)[number]["id"];
+
+const toInputDate = (date: Date): string => format(date, "yyyy-MM-dd");
+
+export function ArrearsPanel({ rows }: ArrearsPanelProps) {
+  const [payments, setPayments] = useState<PaymentEntry[]>([]);
+  const [asOf, setAsOf] = useState<string>(() => toInputDate(new Date()));
+  const [fee, setFee] = useState<Record<FeeField, string>>({
+    fixed: "",
+    dailyRate: "",
+    cap: "",
+    graceDays: "",
+  });
+
+  const arrears = useMemo(() => {
+    const asOfDate = parseISO(asOf);
+    if (!isValid(asOfDate)) return null;
+    const records: PaymentRecord[] = payments
+      .map((entry) => ({
+        date: parseISO(entry.date),
+        amount: toPiasters(Number.parseFloat(entry.amount) || 0),
+      }))
+      .filter((record) => isValid(record.date) && record.amount > 0);
+    return calculateArrears(rows, records, asOfDate, {
+      fixed: toPiasters(Number.parseFloat(fee.fixed) || 0),
+      dailyRate: (Number.parseFloat(fee.dailyRate) || 0) / 100,
+      cap: fee.cap === "" ? null : toPiasters(Number.parseFloat(fee.cap) || 0),
+      graceDays: Number.parseInt(fee.graceDays) || 0,
+    });
+  }, [rows, payments, asOf, fee]);
+
+  const updatePayment = (index: number, entry: Partial<PaymentEntry>) =>
+    setPayments(
+      payments.map((payment, i) =>
+        i === index ? { ...payment, ...entry } : payment
+      )
+    );
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl text-center">
+          المتأخرات والغرامات
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-5 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="arrearsAsOf" className="text-xs font-medium">
+              حتى تاريخ
+            </Label>
+            <Input
+              id="arrearsAsOf"
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+            />
+          </div>
+          {FEE_FIELDS.map((field) => (
+            <div key={field.id} className="space-y-2">
+              <Label
+                htmlFor={`fee-${field.id}`}
+                className="text-xs font-medium"
+              >
+                {field.label}
+              </Label>
+              <Input
+                id={`fee-${field.id}`}
+                type="number"
+                value={fee[field.id]}
+                onChange={(e) => setFee({ ...fee, [field.id]: e.target.value })}
+                className="text-right"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs font-medium">المدفوعات الفعلية</Label>
+          {payments.map((payment, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={payment.date}
+                onChange={(e) => updatePayment(index, { date: e.target.value })}
+              />
+              <Input
+                type="number"
+                placeholder="المبلغ"
+                value={payment.amount}
+                onChange={(e) =>
+                  updatePayment(index, { amount: e.target.value })
+                }
+                className="text-right"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() =>
+                  setPayments(payments.filter((_, i) => i !== index))
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() =>
+              setPayments([...payments, { date: asOf, amount: "" }])
+            }
+          >
+            <Plus className="h-4 w-4" />
+            إضافة دفعة
+          </Button>
+        </div>
+        {arrears && (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">#</TableHead>
+                  <TableHead className="text-right">تاريخ الاستحقاق</TableHead>
+                  <TableHead className="text-right">القسط</TableHead>
+                  <TableHead className="text-right">المدفوع</TableHead>
+                  <TableHead className="text-right">أيام التأخير</TableHead>
+                  <TableHead className="text-right">الغرامة</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {arrears.rows.map((row) => (
+                  <TableRow
+                    key={row.number}
+                    className={
+                      row.daysOverdue > 0 ? "bg-red-50 dark:bg-red-900/20" : ""
+                    }
+                  >
+                    <TableCell>{formatNumber(row.number)}</TableCell>
+                    <TableCell>{formatDate(row.dueDate)}</TableCell>
+                    <TableCell>{formatMoney(row.installment)}</TableCell>
+                    <TableCell>{formatMoney(row.paid)}</TableCell>
+                    <TableCell>{formatNumber(row.daysOverdue)}</TableCell>
+                    <TableCell>{formatMoney(row.lateFee)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded">
+                <div className="font-medium text-gray-600 dark:text-gray-300">
+                  الأقساط المتأخرة
+                </div>
+                <div className="text-lg font-bold">
+                  {formatMoney(arrears.overdueAmount)}
+                </div>
+              </div>
+              <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded">
+                <div className="font-medium text-gray-600 dark:text-gray-300">
+                  الغرامات
+                </div>
+                <div className="text-lg font-bold">
+                  {formatMoney(arrears.lateFees)}
+                </div>
+              </div>
+              <div className="text-center p-3 bg-red-50 dark:bg-red-900/20 rounded">
+                <div className="font-medium text-gray-600 dark:text-gray-300">
+                  إجمالي المتأخرات
+                </div>
+                <div className="text-lg font-bold">
+                  {formatMoney(arrears.totalArrears)}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatMoney, formatPercent } from "@/lib/format";
+import {
+  compareOffer,
+  createRateResolver,
+  toPiasters,
+  type InterestMethod,
+} from "@/lib/installments";
+
+interface CompareOfferPanelProps {
+  category: string;
+  method: InterestMethod;
+}
+
+const OFFER_FIELDS = [
+  { id: "price", label: "سعر الكاش" },
+  { id: "downPayment", label: "المقدم" },
+  { id: "installment", label: "القسط الشهري" },
+  { id: "period", label: "عدد الشهور" },
+] as const;
+
+type OfferField = (typeof OFFER_FIELDS)[number]["id"];
+
+export function CompareOfferPanel({
+  category,
+  method,
+}: CompareOfferPanelProps) {
+  const [offer, setOffer] = useState<Record<OfferField, string>>({
+    price: "",
+    downPayment: "",
+    installment: "",
+    period: "",
+  });
+
+  const comparison = useMemo(() => {
+    if (!offer.price || !offer.installment || !offer.period) return null;
+    return compareOffer(
+      {
+        price: toPiasters(Number.parseFloat(offer.price) || 0),
+        downPayment: toPiasters(Number.parseFloat(offer.downPayment) || 0),
+        installment: toPiasters(Number.parseFloat(offer.installment) || 0),
+        period: Number.parseFloat(offer.period) || 0,
+      },
+      createRateResolver(category),
+      method
+    );
+  }, [offer, category, method]);
+
+  return (
+    <Card className="shadow-lg h-fit">
+      <CardHeader>
+        <CardTitle className="text-xl text-center">مقارنة عرض منافس</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          {OFFER_FIELDS.map((field) => (
+            <div key={field.id} className="space-y-2">
+              <Label
+                htmlFor={`offer-${field.id}`}
+                className="text-xs font-medium"
+              >
+                {field.label}
+              </Label>
+              <Input
+                id={`offer-${field.id}`}
+                type="number"
+                value={offer[field.id]}
+                onChange={(e) =>
+                  setOffer({ ...offer, [field.id]: e.target.value })
+                }
+                className="text-right"
+              />
+            </div>
+          ))}
+        </div>
+        {comparison && (
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded">
+              <div className="font-medium text-gray-600 dark:text-gray-300">
+                نسبة الربح الشهرية للعرض
+              </div>
+              <div className="text-lg font-bold">
+                {formatPercent(comparison.impliedFlatRate)}
+              </div>
+            </div>
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded">
+              <div className="font-medium text-gray-600 dark:text-gray-300">
+                نسبتنا الشهرية
+              </div>
+              <div className="text-lg font-bold">
+                {formatPercent(comparison.ourRate)}
+              </div>
+            </div>
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded">
+              <div className="font-medium text-gray-600 dark:text-gray-300">
+                APR للعرض
+              </div>
+              <div className="text-lg font-bold">
+                {formatPercent(comparison.offerDisclosure.apr)}
+              </div>
+            </div>
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded">
+              <div className="font-medium text-gray-600 dark:text-gray-300">
+                APR لدينا
+              </div>
+              <div className="text-lg font-bold">
+                {formatPercent(comparison.ourDisclosure.apr)}
+              </div>
+            </div>
+            <div
+              className={`col-span-2 text-center p-3 rounded ${
+                comparison.installmentSaving >= 0
+                  ? "bg-green-50 dark:bg-green-900/20"
+                  : "bg-amber-50 dark:bg-amber-900/20"
+              }`}
+            >
+              <div className="font-medium text-gray-600 dark:text-gray-300">
+                قسطنا لنفس الخطة: {formatMoney(comparison.ourInstallment)} جنيه
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {comparison.installmentSaving >= 0
+                  ? `أقل من العرض بـ ${formatMoney(comparison.installmentSaving)} جنيه`
+                  : `أعلى من العرض بـ ${formatMoney(-comparison.installmentSaving)} جنيه`}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { formatMoney, formatNumber } from "@/lib/format";
+import {
+  settleEarly,
+  type RebateMethod,
+  type ScheduleRow,
+} from "@/lib/installments";
+
+interface EarlySettlementPanelProps {
+  rows: ScheduleRow[];
+}
+
+const REBATE_METHOD_LABELS: Record<RebateMethod, string> = {
+  none: "بدون خصم",
+  "pro-rata": "نسبي",
+  "rule-of-78": "قاعدة 78",
+  percentage: "نسبة مئوية",
+};
+
+export function EarlySettlementPanel({ rows }: EarlySettlementPanelProps) {
+  const [paidCount, setPaidCount] = useState<string>("");
+  const [method, setMethod] = useState<RebateMethod>("pro-rata");
+  const [share, setShare] = useState<string>("50");
+
+  const settlement = useMemo(() => {
+    if (paidCount === "") return null;
+    return settleEarly(rows, Number.parseInt(paidCount) || 0, {
+      method,
+      share: (Number.parseFloat(share) || 0) / 100,
+    });
+  }, [rows, paidCount, method, share]);
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl text-center">السداد المبكر</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="paidCount" className="text-xs font-medium">
+              عدد الأقساط المدفوعة
+            </Label>
+            <Input
+              id="paidCount"
+              type="number"
+              min={0}
+              max={rows.length}
+              value={paidCount}
+              onChange={(e) => setPaidCount(e.target.value)}
+              className="text-right"
+            />
+          </div>
+          {method === "percentage" && (
+            <div className="space-y-2">
+              <Label htmlFor="rebateShare" className="text-xs font-medium">
+                نسبة الخصم من الربح غير المستحق %
+              </Label>
+              <Input
+                id="rebateShare"
+                type="number"
+                value={share}
+                onChange={(e) => setShare(e.target.value)}
+                className="text-right"
+              />
+            </div>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs font-medium">طريقة خصم الربح</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={method}
+            onValueChange={(value) => {
+              if (value) setMethod(value as RebateMethod);
+            }}
+            className="grid grid-cols-4"
+          >
+            {(Object.keys(REBATE_METHOD_LABELS) as RebateMethod[]).map(
+              (item) => (
+                <ToggleGroupItem key={item} value={item}>
+                  {REBATE_METHOD_LABELS[item]}
+                </ToggleGroupItem>
+              )
+            )}
+          </ToggleGroup>
+        </div>
+        {settlement && (
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded">
+              <div className="font-medium text-gray-600 dark:text-gray-300">
+                الأقساط المتبقية
+              </div>
+              <div className="text-lg font-bold">
+                {formatNumber(settlement.remainingCount)}
+              </div>
+            </div>
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded">
+              <div className="font-medium text-gray-600 dark:text-gray-300">
+                أصل المبلغ المتبقي
+              </div>
+              <div className="text-lg font-bold">
+                {formatMoney(settlement.outstandingPrincipal)}
+              </div>
+            </div>
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded">
+              <div className="font-medium text-gray-600 dark:text-gray-300">
+                الربح المتبقي
+              </div>
+              <div className="text-lg font-bold">
+                {formatMoney(settlement.remainingProfit)}
+              </div>
+            </div>
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded">
+              <div className="font-medium text-gray-600 dark:text-gray-300">
+                خصم الربح
+              </div>
+              <div className="text-lg font-bold">
+                {formatMoney(settlement.rebate)}
+              </div>
+            </div>
+            <div className="col-span-2 text-center p-3 bg-green-50 dark:bg-green-900/20 rounded">
+              <div className="font-medium text-gray-600 dark:text-gray-300">
+                مبلغ السداد المبكر: {formatMoney(settlement.payoffAmount)} جنيه
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                مقابل {formatMoney(settlement.continuingCost)} جنيه عند
+                الاستمرار في الخطة — توفير {formatMoney(settlement.rebate)} جنيه
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
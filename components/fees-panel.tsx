@@ -0,0 +1,149 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { FeeEntry } from "@/lib/calculator";
+import type { FeeBasis, FeePayment, FeeType } from "@/lib/installments";
+
+interface FeesPanelProps {
+  entries: FeeEntry[];
+  onAdd: () => void;
+  onChange: (index: number, fee: Partial<FeeEntry>) => void;
+  onRemove: (index: number) => void;
+}
+
+export const FEE_TYPE_LABELS: Record<FeeType, string> = {
+  admin: "مصاريف إدارية",
+  insurance: "تأمين على السلعة",
+  "life-insurance": "تأمين على الحياة",
+  "stamp-duty": "دمغة",
+};
+
+const FEE_BASIS_LABELS: Record<FeeBasis, string> = {
+  fixed: "مبلغ",
+  price: "% من السعر",
+  financed: "% من الممول",
+};
+
+const FEE_PAYMENT_LABELS: Record<FeePayment, string> = {
+  upfront: "مع المقدم",
+  financed: "مع الأقساط",
+};
+
+export function FeesPanel({
+  entries,
+  onAdd,
+  onChange,
+  onRemove,
+}: FeesPanelProps) {
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl text-center">الرسوم والتأمين</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.map((fee, index) => (
+          <div
+            key={index}
+            className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end"
+          >
+            <div className="space-y-2">
+              <Label className="text-xs font-medium">نوع الرسم</Label>
+              <Select
+                value={fee.type}
+                onValueChange={(value) =>
+                  onChange(index, { type: value as FeeType })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FEE_TYPE_LABELS) as FeeType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {FEE_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label className="text-xs font-medium">طريقة الحساب</Label>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={fee.basis}
+                onValueChange={(value) => {
+                  if (value) onChange(index, { basis: value as FeeBasis });
+                }}
+                className="grid grid-cols-3"
+              >
+                {(Object.keys(FEE_BASIS_LABELS) as FeeBasis[]).map((basis) => (
+                  <ToggleGroupItem key={basis} value={basis}>
+                    {FEE_BASIS_LABELS[basis]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <div className="space-y-2">
+              <Label
+                htmlFor={`fee-value-${index}`}
+                className="text-xs font-medium"
+              >
+                {fee.basis === "fixed" ? "المبلغ" : "النسبة %"}
+              </Label>
+              <Input
+                id={`fee-value-${index}`}
+                type="number"
+                value={fee.value}
+                onChange={(e) => onChange(index, { value: e.target.value })}
+                className="text-right"
+              />
+            </div>
+            <div className="flex items-end gap-2">
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={fee.payment}
+                onValueChange={(value) => {
+                  if (value) onChange(index, { payment: value as FeePayment });
+                }}
+                className="grid grid-cols-2 flex-1"
+              >
+                {(Object.keys(FEE_PAYMENT_LABELS) as FeePayment[]).map(
+                  (payment) => (
+                    <ToggleGroupItem key={payment} value={payment}>
+                      {FEE_PAYMENT_LABELS[payment]}
+                    </ToggleGroupItem>
+                  )
+                )}
+              </ToggleGroup>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onRemove(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <Button variant="outline" className="gap-2" onClick={onAdd}>
+          <Plus className="h-4 w-4" />
+          إضافة رسم
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { CalendarEntry } from "@/lib/calculator";
+import { formatMonthName } from "@/lib/format";
+import type { OverrideKind } from "@/lib/installments";
+
+interface MonthOverridesPanelProps {
+  entries: CalendarEntry[];
+  onChange: (month: number, kind: OverrideKind | null, amount: string) => void;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, month) => month);
+
+export function MonthOverridesPanel({
+  entries,
+  onChange,
+}: MonthOverridesPanelProps) {
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl text-center">
+          شهور التأجيل والدفعات الإضافية
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {MONTHS.map((month) => {
+          const entry = entries.find((item) => item.month === month);
+          return (
+            <div
+              key={month}
+              className={`space-y-2 p-2 rounded ${
+                entry?.kind === "skip"
+                  ? "bg-gray-100 dark:bg-gray-800"
+                  : entry?.kind === "bonus"
+                    ? "bg-green-50 dark:bg-green-900/20"
+                    : ""
+              }`}
+            >
+              <div className="text-sm font-medium text-center">
+                {formatMonthName(month)}
+              </div>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={entry?.kind ?? "regular"}
+                onValueChange={(value) => {
+                  if (value) {
+                    onChange(
+                      month,
+                      value === "regular" ? null : (value as OverrideKind),
+                      entry?.amount ?? ""
+                    );
+                  }
+                }}
+                className="grid grid-cols-3"
+              >
+                <ToggleGroupItem value="regular">عادي</ToggleGroupItem>
+                <ToggleGroupItem value="skip">تأجيل</ToggleGroupItem>
+                <ToggleGroupItem value="bonus">إضافي</ToggleGroupItem>
+              </ToggleGroup>
+              {entry?.kind === "bonus" && (
+                <Input
+                  type="number"
+                  placeholder="المبلغ الإضافي"
+                  value={entry.amount}
+                  onChange={(e) => onChange(month, "bonus", e.target.value)}
+                  className="text-right"
+                />
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { CalendarIcon, TrendingDown, TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDate, formatMoney, formatNumber } from "@/lib/format";
+import type { ScheduleRow } from "@/lib/installments";
+
+interface ScheduleTableProps {
+  rows: ScheduleRow[];
+  firstDueDate: Date;
+  onFirstDueDateChange: (date: Date) => void;
+}
+
+/** 1 or -1 where a graduated installment steps up or down, otherwise 0. */
+const stepDirection = (rows: ScheduleRow[], index: number): number => {
+  const row = rows[index];
+  if (row.isBalloon || row.isAdjusted || row.override) return 0;
+  // Compare with the last regular installment before this one
+  const previous = rows
+    .slice(0, index)
+    .findLast((item) => !item.isGrace && !item.override);
+  if (!previous || previous.isAdjusted) return 0;
+  return Math.sign(row.installment - previous.installment);
+};
+
+export function ScheduleTable({
+  rows,
+  firstDueDate,
+  onFirstDueDateChange,
+}: ScheduleTableProps) {
+  const total = (key: "installment" | "principal" | "profit") =>
+    rows.reduce((sum, row) => sum + row[key], 0);
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl text-center">جدول الأقساط</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Label className="text-xs font-medium">تاريخ أول قسط</Label>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="gap-2">
+                <CalendarIcon className="h-4 w-4" />
+                {formatDate(firstDueDate)}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={firstDueDate}
+                onSelect={(date) => date && onFirstDueDateChange(date)}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-right">#</TableHead>
+              <TableHead className="text-right">تاريخ الاستحقاق</TableHead>
+              <TableHead className="text-right">القسط</TableHead>
+              <TableHead className="text-right">أصل المبلغ</TableHead>
+              <TableHead className="text-right">الربح</TableHead>
+              <TableHead className="text-right">الرصيد المتبقي</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow
+                key={row.number}
+                className={
+                  row.isGrace || row.override === "skip"
+                    ? "text-gray-500 dark:text-gray-400"
+                    : row.isBalloon
+                      ? "bg-blue-50 dark:bg-blue-900/20 font-medium"
+                      : row.override === "bonus"
+                        ? "bg-green-50 dark:bg-green-900/20"
+                        : row.isAdjusted
+                          ? "bg-amber-50 dark:bg-amber-900/20"
+                          : ""
+                }
+              >
+                <TableCell>{formatNumber(row.number)}</TableCell>
+                <TableCell>{formatDate(row.dueDate)}</TableCell>
+                <TableCell>
+                  {row.isGrace ? "فترة سماح" : formatMoney(row.installment)}
+                  {row.isAdjusted && (
+                    <span className="text-amber-600 text-xs mr-2">(معدل)</span>
+                  )}
+                  {stepDirection(rows, index) > 0 && (
+                    <TrendingUp className="inline h-4 w-4 text-green-600 mr-2" />
+                  )}
+                  {stepDirection(rows, index) < 0 && (
+                    <TrendingDown className="inline h-4 w-4 text-amber-600 mr-2" />
+                  )}
+                  {row.override === "skip" && (
+                    <span className="text-xs mr-2">(مؤجل)</span>
+                  )}
+                  {row.override === "bonus" && (
+                    <span className="text-green-600 text-xs mr-2">
+                      (دفعة إضافية)
+                    </span>
+                  )}
+                  {row.isBalloon && (
+                    <span className="text-blue-600 text-xs mr-2">
+                      (دفعة أخيرة)
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell>{formatMoney(row.principal)}</TableCell>
+                <TableCell>{formatMoney(row.profit)}</TableCell>
+                <TableCell>{formatMoney(row.balance)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={2}>الإجمالي</TableCell>
+              <TableCell>{formatMoney(total("installment"))}</TableCell>
+              <TableCell>{formatMoney(total("principal"))}</TableCell>
+              <TableCell>{formatMoney(total("profit"))}</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
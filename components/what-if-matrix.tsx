@@ -0,0 +1,135 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatMoney, formatNumber, formatPercent } from "@/lib/format";
+import type { Piasters, WhatIfRow } from "@/lib/installments";
+
+interface WhatIfMatrixProps {
+  rows: WhatIfRow[];
+  /** Budget line the cells are coloured against; 0 leaves them plain. */
+  budget: Piasters;
+  budgetValue: string;
+  /** Wording for the budget per installment period and for period counts. */
+  budgetLabel: string;
+  countLabel: string;
+  onBudgetChange: (value: string) => void;
+  onSelect: (period: number, downPayment: Piasters) => void;
+}
+
+// Installment as a share of the budget, from comfortably under to well over
+const HEAT_SCALE = [
+  { upTo: 0.8, className: "bg-green-200 dark:bg-green-900/60" },
+  { upTo: 1, className: "bg-green-50 dark:bg-green-900/20" },
+  { upTo: 1.2, className: "bg-amber-100 dark:bg-amber-900/40" },
+  { upTo: Infinity, className: "bg-red-100 dark:bg-red-900/40" },
+];
+
+const heatClass = (installment: Piasters, budget: Piasters): string => {
+  if (budget <= 0) return "";
+  const ratio = installment / budget;
+  return HEAT_SCALE.find((step) => ratio <= step.upTo)?.className ?? "";
+};
+
+export function WhatIfMatrix({
+  rows,
+  budget,
+  budgetValue,
+  budgetLabel,
+  countLabel,
+  onBudgetChange,
+  onSelect,
+}: WhatIfMatrixProps) {
+  // Rows can lack a period a step-down takes below zero
+  const periods = [
+    ...new Set(rows.flatMap((row) => row.cells.map((cell) => cell.period))),
+  ].sort((a, b) => a - b);
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl text-center">
+          المقدم مقابل المدة
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Label htmlFor="matrixBudget" className="text-xs font-medium">
+            {budgetLabel}
+          </Label>
+          <Input
+            id="matrixBudget"
+            type="number"
+            placeholder="أقصى قسط"
+            value={budgetValue}
+            onChange={(e) => onBudgetChange(e.target.value)}
+            className="text-right max-w-48"
+          />
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-right">المقدم</TableHead>
+              {periods.map((period) => (
+                <TableHead key={period} className="text-center">
+                  {formatNumber(period)} {countLabel}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.share}>
+                <TableCell>
+                  <div className="font-medium">{formatPercent(row.share)}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatMoney(row.downPayment)}
+                  </div>
+                </TableCell>
+                {periods.map((period) => {
+                  const cell = row.cells.find((item) => item.period === period);
+                  if (!cell) {
+                    return (
+                      <TableCell
+                        key={period}
+                        className="text-center text-gray-400"
+                      >
+                        —
+                      </TableCell>
+                    );
+                  }
+                  return (
+                    <TableCell
+                      key={period}
+                      className={`p-0 text-center ${heatClass(
+                        cell.maxInstallment,
+                        budget
+                      )}`}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => onSelect(period, row.downPayment)}
+                        className="w-full p-2 hover:underline"
+                      >
+                        {formatMoney(cell.installment)}
+                      </button>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
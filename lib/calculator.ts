@@ -0,0 +1,573 @@
+import { addMonths, startOfDay } from "date-fns";
+import {
+  buildWhatIfMatrix,
+  checkDownPaymentPolicy,
+  createRateResolver,
+  DEFAULT_CATEGORY,
+  DEFAULT_FREQUENCY,
+  DEFAULT_INSTALLMENT_ROUNDING,
+  DEFAULT_INTEREST_METHOD,
+  fromPiasters,
+  overridesForCalendar,
+  periodsForMonths,
+  solvePlan,
+  suggestBudgetPlans,
+  suggestionPeriodsFor,
+  suggestPlans,
+  toPiasters,
+  type BalloonPayment,
+  type BudgetSuggestion,
+  type FeeRule,
+  type GracePeriod,
+  type GraduatedPayment,
+  type InstallmentOverride,
+  type InstallmentRounding,
+  type InterestMethod,
+  type OverrideKind,
+  type PaymentFrequency,
+  type PeriodRounding,
+  type Piasters,
+  type Plan,
+  type PlanField,
+  type PlanInput,
+  type PlanTotals,
+  type PlanWarning,
+  type RateDisclosure,
+  type SuggestOptions,
+  type Suggestion,
+  type WhatIfRow,
+} from "@/lib/installments";
+
+/** Raw text of the calculator inputs, exactly as typed. */
+export interface CalculatorInputs {
+  price: string;
+  downPayment: string;
+  period: string;
+  installment: string;
+  /** Monthly rate override in percent; empty uses the rate card. */
+  monthlyRate: string;
+}
+
+export type InputField = keyof CalculatorInputs;
+
+/** `period` suggests one plan per period; `budget` fits plans to a budget. */
+export type SuggestionMode = "period" | "budget";
+
+/** Whether the balloon is typed as an amount or a percentage of the price. */
+export type BalloonKind = BalloonPayment["kind"];
+
+/** Whether the down payment is typed as an amount or a share of the price. */
+export type DownPaymentKind = "amount" | "share";
+
+/** Whether installments step by a percentage or by an amount. */
+export type GraduationKind = GraduatedPayment["kind"];
+
+/** A fee rule with its amount or percentage as typed. */
+export interface FeeEntry extends Omit<FeeRule, "value"> {
+  value: string;
+}
+
+export const NEW_FEE: FeeEntry = {
+  type: "admin",
+  basis: "fixed",
+  value: "",
+  payment: "upfront",
+};
+
+/** A skipped or bonus calendar month, with the bonus amount as typed. */
+export interface CalendarEntry {
+  month: number;
+  kind: OverrideKind;
+  amount: string;
+}
+
+export interface CalculatorState {
+  inputs: CalculatorInputs;
+  solveFor: PlanField;
+  /** Never `share` while solving for the price, which it would depend on. */
+  downPaymentKind: DownPaymentKind;
+  method: InterestMethod;
+  frequency: PaymentFrequency;
+  category: string;
+  installmentRounding: InstallmentRounding;
+  periodRounding: PeriodRounding;
+  /** Grace months before the first installment, as typed. */
+  graceMonths: string;
+  graceChargesProfit: boolean;
+  /** Balloon amount or percentage, as typed; empty for none. */
+  balloon: string;
+  balloonKind: BalloonKind;
+  /** Change per step, as typed; empty for level installments. */
+  graduationStep: string;
+  graduationKind: GraduationKind;
+  /** Installments between steps, as typed. */
+  graduationEvery: string;
+  /** Months whose installments are skipped or topped up. */
+  calendar: CalendarEntry[];
+  fees: FeeEntry[];
+  firstDueDate: Date;
+  suggestionMode: SuggestionMode;
+  /** Maximum installment for budget suggestions and the matrix. */
+  budget: string;
+}
+
+export type CalculatorAction =
+  | { type: "set-input"; field: InputField; value: string }
+  | {
+      type: "set-solve-for";
+      solveFor: PlanField;
+      /** Value shown for the field being unlocked, kept as its new input. */
+      keep?: string;
+    }
+  | { type: "set-down-payment-kind"; kind: DownPaymentKind }
+  | { type: "set-method"; method: InterestMethod }
+  | { type: "set-frequency"; frequency: PaymentFrequency }
+  | { type: "set-category"; category: string }
+  | { type: "set-installment-rounding"; rounding: InstallmentRounding }
+  | { type: "set-period-rounding"; periodRounding: PeriodRounding }
+  | { type: "set-grace-months"; value: string }
+  | { type: "set-grace-profit"; chargeProfit: boolean }
+  | { type: "set-balloon"; value: string }
+  | { type: "set-balloon-kind"; kind: BalloonKind }
+  | { type: "set-graduation-step"; value: string }
+  | { type: "set-graduation-kind"; kind: GraduationKind }
+  | { type: "set-graduation-every"; value: string }
+  | {
+      /** A null kind makes the month regular again. */
+      type: "set-month-override";
+      month: number;
+      kind: OverrideKind | null;
+      amount: string;
+    }
+  | { type: "add-fee" }
+  | { type: "set-fee"; index: number; fee: Partial<FeeEntry> }
+  | { type: "remove-fee"; index: number }
+  | { type: "set-first-due-date"; date: Date }
+  | { type: "set-suggestion-mode"; mode: SuggestionMode }
+  | { type: "set-budget"; value: string }
+  | {
+      /** Takes a suggested period (and down payment) as the main inputs. */
+      type: "apply-suggestion";
+      period: number;
+      downPayment?: Piasters;
+      keep?: string;
+    };
+
+export type CalculatorResult =
+  | { status: "idle" }
+  | { status: "invalid"; warnings: PlanWarning[] }
+  | {
+      status: "solved";
+      plan: Plan;
+      totals: PlanTotals;
+      disclosure: RateDisclosure;
+      suggestions: Suggestion[];
+      budgetSuggestions: BudgetSuggestion[];
+      matrix: WhatIfRow[];
+      /** Options the suggestions, matrix and budget rows are priced with. */
+      suggestOptions: SuggestOptions;
+      warnings: PlanWarning[];
+      /** Down payment policies the plan breaks; it is calculated anyway. */
+      policyViolations: PlanWarning[];
+    };
+
+export const INPUT_FIELDS: Record<PlanField, InputField> = {
+  price: "price",
+  down: "downPayment",
+  period: "period",
+  installment: "installment",
+  rate: "monthlyRate",
+};
+
+export const createCalculatorState = (
+  today: Date = new Date()
+): CalculatorState => ({
+  inputs: {
+    price: "",
+    downPayment: "",
+    period: "12",
+    installment: "",
+    monthlyRate: "",
+  },
+  solveFor: "installment",
+  downPaymentKind: "amount",
+  method: DEFAULT_INTEREST_METHOD,
+  frequency: DEFAULT_FREQUENCY,
+  category: DEFAULT_CATEGORY,
+  installmentRounding: DEFAULT_INSTALLMENT_ROUNDING,
+  periodRounding: "final-installment",
+  graceMonths: "",
+  graceChargesProfit: false,
+  balloon: "",
+  balloonKind: "amount",
+  graduationStep: "",
+  graduationKind: "percent",
+  graduationEvery: "12",
+  calendar: [],
+  fees: [],
+  firstDueDate: addMonths(startOfDay(today), 1),
+  suggestionMode: "period",
+  budget: "",
+});
+
+/** Percentage of the typed price that `amount` pounds come to. */
+const shareOfPrice = (inputs: CalculatorInputs, amount: number): string => {
+  const price = parseNumber(inputs.price);
+  return price > 0 ? String(Number(((amount / price) * 100).toFixed(2))) : "";
+};
+
+/** Switches the down payment's unit, converting the typed value with it. */
+const changeDownPaymentKind = (
+  state: CalculatorState,
+  kind: DownPaymentKind
+): CalculatorState => {
+  const { inputs } = state;
+  if (kind === state.downPaymentKind || inputs.downPayment === "") {
+    return { ...state, downPaymentKind: kind };
+  }
+  return {
+    ...state,
+    downPaymentKind: kind,
+    inputs: {
+      ...inputs,
+      downPayment:
+        kind === "share"
+          ? shareOfPrice(inputs, parseNumber(inputs.downPayment))
+          : String(fromPiasters(parseDownPayment(state))),
+    },
+  };
+};
+
+/**
+ * Hands the unknown over to `solveFor`, keeping the old unknown's value. A
+ * down payment typed as a percentage becomes an amount once the price is
+ * the unknown.
+ */
+const changeUnknown = (
+  state: CalculatorState,
+  solveFor: PlanField,
+  keep: string | undefined
+): CalculatorState => {
+  const inputs =
+    keep === undefined || solveFor === state.solveFor
+      ? state.inputs
+      : { ...state.inputs, [INPUT_FIELDS[state.solveFor]]: keep };
+  if (solveFor !== "price" || state.downPaymentKind === "amount") {
+    return { ...state, solveFor, inputs };
+  }
+  return {
+    ...state,
+    solveFor,
+    downPaymentKind: "amount",
+    inputs: {
+      ...inputs,
+      downPayment: String(fromPiasters(parseDownPayment({ ...state, inputs }))),
+    },
+  };
+};
+
+export const calculatorReducer = (
+  state: CalculatorState,
+  action: CalculatorAction
+): CalculatorState => {
+  switch (action.type) {
+    case "set-input":
+      return {
+        ...state,
+        inputs: { ...state.inputs, [action.field]: action.value },
+      };
+    case "set-solve-for":
+      return changeUnknown(state, action.solveFor, action.keep);
+    case "set-down-payment-kind":
+      return changeDownPaymentKind(state, action.kind);
+    case "set-method":
+      return { ...state, method: action.method };
+    case "set-frequency":
+      return { ...state, frequency: action.frequency };
+    case "set-category":
+      return { ...state, category: action.category };
+    case "set-installment-rounding":
+      return { ...state, installmentRounding: action.rounding };
+    case "set-period-rounding":
+      return { ...state, periodRounding: action.periodRounding };
+    case "set-grace-months":
+      return { ...state, graceMonths: action.value };
+    case "set-grace-profit":
+      return { ...state, graceChargesProfit: action.chargeProfit };
+    case "set-balloon":
+      return { ...state, balloon: action.value };
+    case "set-balloon-kind":
+      return { ...state, balloonKind: action.kind };
+    case "set-graduation-step":
+      return { ...state, graduationStep: action.value };
+    case "set-graduation-kind":
+      return { ...state, graduationKind: action.kind };
+    case "set-graduation-every":
+      return { ...state, graduationEvery: action.value };
+    case "set-month-override": {
+      const calendar = state.calendar.filter(
+        (entry) => entry.month !== action.month
+      );
+      if (action.kind) {
+        calendar.push({
+          month: action.month,
+          kind: action.kind,
+          amount: action.amount,
+        });
+      }
+      return { ...state, calendar };
+    }
+    case "add-fee":
+      return { ...state, fees: [...state.fees, NEW_FEE] };
+    case "set-fee":
+      return {
+        ...state,
+        fees: state.fees.map((fee, index) =>
+          index === action.index ? { ...fee, ...action.fee } : fee
+        ),
+      };
+    case "remove-fee":
+      return {
+        ...state,
+        fees: state.fees.filter((_, index) => index !== action.index),
+      };
+    case "set-first-due-date":
+      return { ...state, firstDueDate: action.date };
+    case "set-suggestion-mode":
+      return { ...state, suggestionMode: action.mode };
+    case "set-budget":
+      return { ...state, budget: action.value };
+    case "apply-suggestion": {
+      const next = changeUnknown(state, "installment", action.keep);
+      return {
+        ...next,
+        inputs: {
+          ...next.inputs,
+          period: String(action.period),
+          downPayment:
+            action.downPayment === undefined
+              ? next.inputs.downPayment
+              : next.downPaymentKind === "share"
+                ? shareOfPrice(next.inputs, fromPiasters(action.downPayment))
+                : String(fromPiasters(action.downPayment)),
+        },
+      };
+    }
+  }
+};
+
+export const parseNumber = (value: string): number => {
+  return Number.parseFloat(value) || 0;
+};
+
+/** Down payment in piasters; a percentage is taken of the typed price. */
+export const parseDownPayment = ({
+  inputs,
+  downPaymentKind,
+}: CalculatorState): Piasters =>
+  downPaymentKind === "share"
+    ? toPiasters(
+        (parseNumber(inputs.price) * parseNumber(inputs.downPayment)) / 100
+      )
+    : toPiasters(parseNumber(inputs.downPayment));
+
+const parseBalloon = ({
+  balloon,
+  balloonKind,
+}: CalculatorState): BalloonPayment | undefined => {
+  if (balloon === "") return undefined;
+  return balloonKind === "amount"
+    ? { kind: "amount", amount: toPiasters(parseNumber(balloon)) }
+    : { kind: "share", share: parseNumber(balloon) / 100 };
+};
+
+const parseGraduation = ({
+  graduationStep,
+  graduationKind,
+  graduationEvery,
+}: CalculatorState): GraduatedPayment | undefined => {
+  if (graduationStep === "") return undefined;
+  return {
+    every: parseNumber(graduationEvery),
+    kind: graduationKind,
+    step:
+      graduationKind === "percent"
+        ? parseNumber(graduationStep) / 100
+        : toPiasters(parseNumber(graduationStep)),
+  };
+};
+
+/** Overrides for the installments that fall in the calendar's months. */
+const parseOverrides = (
+  state: CalculatorState,
+  graceMonths: number
+): InstallmentOverride[] | undefined => {
+  if (state.calendar.length === 0) return undefined;
+  return overridesForCalendar(
+    state.calendar.map((entry) => ({
+      month: entry.month,
+      kind: entry.kind,
+      amount: toPiasters(parseNumber(entry.amount)),
+    })),
+    state.firstDueDate,
+    Math.ceil(parseNumber(state.inputs.period)),
+    state.frequency,
+    graceMonths
+  );
+};
+
+/** Fee rules with a value typed in; the value is an amount or a percentage. */
+const parseFees = ({ fees }: CalculatorState): FeeRule[] | undefined => {
+  const rules = fees
+    .filter((fee) => fee.value !== "")
+    .map((fee) => ({
+      type: fee.type,
+      basis: fee.basis,
+      value:
+        fee.basis === "fixed"
+          ? toPiasters(parseNumber(fee.value))
+          : parseNumber(fee.value) / 100,
+      payment: fee.payment,
+    }));
+  return rules.length > 0 ? rules : undefined;
+};
+
+const parseGrace = (state: CalculatorState): GracePeriod => ({
+  months: parseNumber(state.graceMonths),
+  chargeProfit: state.graceChargesProfit,
+});
+
+/**
+ * Options every suggestion for `state` is priced with. A typed rate, or
+ * `solvedRate` when the rate is the unknown, applies to every period instead
+ * of the rate card.
+ */
+export const suggestOptionsFor = (
+  state: CalculatorState,
+  solvedRate?: number
+): SuggestOptions => {
+  const typedRate =
+    state.inputs.monthlyRate === ""
+      ? undefined
+      : parseNumber(state.inputs.monthlyRate) / 100;
+  const rate = state.solveFor === "rate" ? solvedRate : typedRate;
+  return {
+    // Category periods are in months; suggestions count installments
+    periods: periodsForMonths(
+      suggestionPeriodsFor(state.category),
+      state.frequency
+    ),
+    rate: rate ?? createRateResolver(state.category),
+    method: state.method,
+    installmentRounding: state.installmentRounding,
+    grace: parseGrace(state),
+    frequency: state.frequency,
+    balloon: parseBalloon(state),
+    graduation: parseGraduation(state),
+    fees: parseFees(state),
+  };
+};
+
+/** True once the field that starts a calculation has been filled in. */
+const hasStarted = ({ inputs, solveFor }: CalculatorState): boolean =>
+  solveFor === "price" ? inputs.installment !== "" : inputs.price !== "";
+
+/** Solves the plan described by `state`. Never changes the inputs. */
+export const deriveResult = (state: CalculatorState): CalculatorResult => {
+  if (!hasStarted(state)) return { status: "idle" };
+
+  const { inputs, solveFor } = state;
+  // The unknown is left out so the engine never reads a stale value for it
+  const grace = parseGrace(state);
+  const input: PlanInput = {
+    method: state.method,
+    grace,
+    frequency: state.frequency,
+    balloon: parseBalloon(state),
+    graduation: parseGraduation(state),
+    overrides: parseOverrides(state, grace.months),
+    fees: parseFees(state),
+  };
+  if (solveFor !== "price") {
+    input.price = toPiasters(parseNumber(inputs.price));
+  }
+  if (solveFor !== "down") {
+    input.downPayment = parseDownPayment(state);
+  }
+  if (solveFor !== "period") {
+    input.period = parseNumber(inputs.period);
+  }
+  if (solveFor !== "installment") {
+    input.installment = toPiasters(parseNumber(inputs.installment));
+  }
+  if (solveFor !== "rate" && inputs.monthlyRate !== "") {
+    input.monthlyRate = parseNumber(inputs.monthlyRate) / 100;
+  }
+
+  const rateFor = createRateResolver(state.category);
+  const outcome = solvePlan(input, {
+    solveFor,
+    rateFor,
+    installmentRounding: state.installmentRounding,
+    periodRounding: state.periodRounding,
+  });
+  if (!outcome.ok) {
+    return { status: "invalid", warnings: outcome.warnings };
+  }
+
+  // No down payment can make the budget work, so there is no plan to show
+  if (
+    solveFor === "down" &&
+    outcome.warnings.some((w) => w.code === "negative-down-payment")
+  ) {
+    return { status: "invalid", warnings: outcome.warnings };
+  }
+
+  const suggestOptions = suggestOptionsFor(state, outcome.plan.monthlyRate);
+  const budget = toPiasters(parseNumber(state.budget));
+  return {
+    status: "solved",
+    plan: outcome.plan,
+    totals: outcome.totals,
+    disclosure: outcome.disclosure,
+    suggestions: suggestPlans(
+      outcome.plan.price,
+      outcome.plan.downPayment,
+      suggestOptions
+    ),
+    budgetSuggestions:
+      state.suggestionMode === "budget" && budget > 0
+        ? suggestBudgetPlans(outcome.plan.price, budget, suggestOptions)
+        : [],
+    matrix: buildWhatIfMatrix(outcome.plan.price, suggestOptions),
+    suggestOptions,
+    warnings: outcome.warnings,
+    policyViolations: checkDownPaymentPolicy(outcome.plan, state.category),
+  };
+};
+
+/** Text shown in the input of `field`: the solved value for the unknown. */
+export const displayValue = (
+  state: CalculatorState,
+  result: CalculatorResult,
+  field: PlanField
+): string => {
+  if (field !== state.solveFor) return state.inputs[INPUT_FIELDS[field]];
+  if (result.status !== "solved") return "";
+
+  const { plan } = result;
+  switch (field) {
+    case "price":
+      return fromPiasters(plan.price).toFixed(2);
+    case "down":
+      return state.downPaymentKind === "share"
+        ? ((plan.downPayment / plan.price) * 100).toFixed(2)
+        : fromPiasters(plan.downPayment).toFixed(2);
+    case "installment":
+      return fromPiasters(plan.installment).toFixed(2);
+    case "period":
+      return String(Number(plan.period.toFixed(2)));
+    case "rate":
+      return (plan.monthlyRate * 100).toFixed(2);
+  }
+};
@@ -0,0 +1,29 @@
+import { format } from "date-fns";
+import { arEG } from "date-fns/locale";
+import { fromPiasters, type Piasters } from "@/lib/installments";
+
+export const formatNumber = (num: number, locale = "ar-EG"): string => {
+  return new Intl.NumberFormat(locale).format(Math.round(num));
+};
+
+export const formatMoney = (amount: Piasters, locale = "ar-EG"): string => {
+  return new Intl.NumberFormat(locale, {
+    maximumFractionDigits: 2,
+  }).format(fromPiasters(amount));
+};
+
+export const formatPercent = (rate: number): string => {
+  return new Intl.NumberFormat("ar-EG", {
+    style: "percent",
+    maximumFractionDigits: 1,
+  }).format(rate);
+};
+
+export const formatDate = (date: Date): string => {
+  return format(date, "d MMMM yyyy", { locale: arEG });
+};
+
+/** Name of calendar `month`, 0 being January. */
+export const formatMonthName = (month: number): string => {
+  return format(new Date(2000, month, 1), "MMMM", { locale: arEG });
+};
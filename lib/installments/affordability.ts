@@ -0,0 +1,97 @@
+import {
+  DEFAULT_MONTHLY_RATE,
+  DEFAULT_SUGGESTION_PERIODS,
+  solvePlan,
+} from "./engine";
+import { DEFAULT_FREQUENCY, monthsPerPeriod } from "./frequency";
+import { roundPiasters, type Piasters } from "./money";
+import type {
+  AffordabilityCheck,
+  AffordabilityProfile,
+  AffordablePrice,
+  SuggestOptions,
+} from "./types";
+
+export const DEFAULT_MAX_DEBT_BURDEN = 0.5;
+
+/** Room left in the profile's budget for a new installment, never negative. */
+export const maxAffordableInstallment = (
+  profile: AffordabilityProfile
+): Piasters =>
+  Math.max(
+    0,
+    roundPiasters(profile.monthlyIncome * profile.maxDebtBurden, "down") -
+      profile.obligations
+  );
+
+/** Checks whether `installment` fits within the profile's debt burden. */
+export const checkAffordability = (
+  installment: Piasters,
+  profile: AffordabilityProfile
+): AffordabilityCheck => {
+  const maxInstallment = maxAffordableInstallment(profile);
+  return {
+    maxInstallment,
+    debtBurden:
+      profile.monthlyIncome > 0
+        ? (profile.obligations + installment) / profile.monthlyIncome
+        : Infinity,
+    affordable: profile.monthlyIncome > 0 && installment <= maxInstallment,
+  };
+};
+
+/**
+ * Highest cash price the profile can afford for each period of `options`,
+ * given the down payment the customer brings: the price `solvePlan` finds
+ * for the largest affordable installment, on the same terms a suggestion
+ * gets. Periods the budget cannot pay for at all are left out.
+ */
+export const maxAffordablePrices = (
+  profile: AffordabilityProfile,
+  down: Piasters,
+  options: SuggestOptions = {}
+): AffordablePrice[] => {
+  const {
+    periods = DEFAULT_SUGGESTION_PERIODS,
+    rate = DEFAULT_MONTHLY_RATE,
+    frequency = DEFAULT_FREQUENCY,
+  } = options;
+  const maxInstallment = maxAffordableInstallment(profile);
+  // The budget is monthly, while installments fall due every period
+  const installment = roundPiasters(
+    maxInstallment * monthsPerPeriod(frequency),
+    "down"
+  );
+
+  return periods.flatMap((period) => {
+    const result = solvePlan(
+      {
+        downPayment: down,
+        period,
+        installment,
+        monthlyRate: typeof rate === "number" ? rate : undefined,
+        method: options.method,
+        grace: options.grace,
+        frequency,
+        balloon: options.balloon,
+        fees: options.fees,
+        // Graduated installments are only solved for, so the price is for
+        // level installments of the whole budget
+      },
+      {
+        solveFor: "price",
+        rateFor: typeof rate === "number" ? undefined : rate,
+        rounding: "down",
+      }
+    );
+    if (!result.ok) return [];
+    return [
+      {
+        period,
+        monthlyRate: result.plan.monthlyRate,
+        maxInstallment,
+        maxPrice: result.plan.price,
+      },
+    ];
+  });
+};
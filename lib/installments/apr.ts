@@ -0,0 +1,152 @@
+import {
+  DEFAULT_FREQUENCY,
+  monthsPerPeriod,
+  periodicRate,
+  PERIODS_PER_YEAR,
+  profitGracePeriods,
+} from "./frequency";
+import { planFeeCharges, planFinancedAmount, sumFees } from "./fees";
+import { installmentAt, LEVEL_PATTERN } from "./installment-pattern";
+import { findRoot } from "./solver";
+import type {
+  InstallmentPattern,
+  InterestMethod,
+  PaymentFrequency,
+  Plan,
+  RateDisclosure,
+} from "./types";
+
+const netPresentValue = (
+  cashFlows: number[],
+  rate: number,
+  deferral: number
+): number =>
+  cashFlows.reduce(
+    (sum, flow, period) =>
+      sum + flow / Math.pow(1 + rate, period === 0 ? 0 : period + deferral),
+    0
+  );
+
+/**
+ * Internal rate of return per period of `cashFlows`, where index 0 is the
+ * amount financed (negative) and each following index is one period.
+ * `deferral` pushes every payment back by that many (possibly fractional)
+ * periods, as a grace period does.
+ */
+export const calculateIrr = (
+  cashFlows: number[],
+  deferral = 0
+): number | null =>
+  findRoot((rate) => netPresentValue(cashFlows, rate, deferral), -0.99, 10);
+
+/**
+ * Last payment of a period that ends in a fraction of an installment, or 0
+ * for a whole period. Under the reducing method it pays off what the full
+ * installments leave of the balance (less the balloon) with one more period
+ * of profit; under the flat method it is the same fraction of an installment.
+ */
+export const finalPartialPayment = (
+  financedAmount: number,
+  installment: number,
+  period: number,
+  rate: number,
+  method: InterestMethod,
+  gracePeriods = 0,
+  balloon = 0
+): number => {
+  const fullPeriods = Math.floor(period);
+  if (fullPeriods === period) return 0;
+  if (method !== "reducing" || rate <= 0) {
+    return installment * (period - fullPeriods);
+  }
+  const growth = Math.pow(1 + rate, fullPeriods);
+  const balance =
+    financedAmount * Math.pow(1 + rate, gracePeriods) * growth -
+    (installment * (growth - 1)) / rate;
+  return balance * (1 + rate) - balloon;
+};
+
+/**
+ * Customer cash flows for a plan: the financed amount up front, then one
+ * installment per period, following `pattern` from the regular
+ * `installment`. A fractional period ends with `finalPayment`, a fraction of
+ * an installment unless given, and a balloon is paid together with the last
+ * one.
+ */
+export const planCashFlows = (
+  financedAmount: number,
+  installment: number,
+  period: number,
+  balloon = 0,
+  pattern: InstallmentPattern = LEVEL_PATTERN,
+  finalPayment = installment * (period - Math.floor(period))
+): number[] => {
+  const fullPeriods = Math.floor(period);
+  const flows = [-financedAmount];
+  for (let index = 0; index < fullPeriods; index++) {
+    flows.push(installmentAt(installment, index, pattern));
+  }
+  const remainder = period - fullPeriods;
+  if (remainder > 0) flows.push(finalPayment);
+  flows[flows.length - 1] += balloon;
+  return flows;
+};
+
+export const discloseRate = (
+  financedAmount: number,
+  installment: number,
+  period: number,
+  graceMonths = 0,
+  frequency: PaymentFrequency = DEFAULT_FREQUENCY,
+  balloon = 0,
+  pattern: InstallmentPattern = LEVEL_PATTERN,
+  finalPayment?: number
+): RateDisclosure => {
+  if (financedAmount <= 0 || period <= 0) {
+    return { monthlyRate: 0, apr: 0, effectiveAnnualRate: 0 };
+  }
+  const periodRate =
+    calculateIrr(
+      planCashFlows(
+        financedAmount,
+        installment,
+        period,
+        balloon,
+        pattern,
+        finalPayment
+      ),
+      graceMonths / monthsPerPeriod(frequency)
+    ) ?? 0;
+  const periodsPerYear = PERIODS_PER_YEAR[frequency];
+  const effectiveAnnualRate = Math.pow(1 + periodRate, periodsPerYear) - 1;
+  return {
+    monthlyRate: Math.pow(1 + effectiveAnnualRate, 1 / 12) - 1,
+    apr: periodRate * periodsPerYear,
+    effectiveAnnualRate,
+  };
+};
+
+/**
+ * Rate disclosure of `plan`. Fees make the loan dearer: the customer gets the
+ * price less the down payment and the upfront fees, while the installments
+ * also pay off the financed fees.
+ */
+export const disclosePlan = (plan: Plan): RateDisclosure =>
+  discloseRate(
+    plan.price - plan.downPayment - sumFees(planFeeCharges(plan), "upfront"),
+    plan.installment,
+    plan.period,
+    plan.grace.months,
+    plan.frequency,
+    plan.balloon,
+    plan,
+    finalPartialPayment(
+      planFinancedAmount(plan),
+      plan.installment,
+      plan.period,
+      periodicRate(plan.monthlyRate, plan.frequency, plan.method),
+      plan.method,
+      profitGracePeriods(plan.grace, plan.frequency),
+      plan.balloon
+    )
+  );
@@ -0,0 +1,138 @@
+import { differenceInCalendarDays } from "date-fns";
+import { roundPiasters } from "./money";
+import type {
+  ArrearsRow,
+  ArrearsSummary,
+  LateFeeRule,
+  PaymentRecord,
+  ScheduleRow,
+} from "./types";
+
+export const DEFAULT_LATE_FEE_RULE: LateFeeRule = {
+  fixed: 0,
+  dailyRate: 0,
+  cap: null,
+  graceDays: 0,
+};
+
+/** Partial payments towards one installment, in date order. */
+interface Allocation {
+  date: Date;
+  amount: number;
+}
+
+/**
+ * Applies payments to installments oldest first. Anything paid beyond the
+ * last installment is ignored.
+ */
+const allocatePayments = (
+  rows: ScheduleRow[],
+  payments: PaymentRecord[]
+): Allocation[][] => {
+  const allocations: Allocation[][] = rows.map(() => []);
+  const sorted = [...payments].sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+  let index = 0;
+  let due = rows[0]?.installment ?? 0;
+
+  for (const payment of sorted) {
+    let left = payment.amount;
+    while (left > 0 && index < rows.length) {
+      // Grace months and skipped installments have nothing due
+      if (due > 0) {
+        const applied = Math.min(left, due);
+        allocations[index].push({ date: payment.date, amount: applied });
+        left -= applied;
+        due -= applied;
+      }
+      if (due <= 0) {
+        index += 1;
+        due = rows[index]?.installment ?? 0;
+      }
+    }
+  }
+  return allocations;
+};
+
+/** Fee on one installment, accrued on its unpaid amount day by day. */
+const lateFeeFor = (
+  row: ScheduleRow,
+  allocations: Allocation[],
+  settledOn: Date,
+  rule: LateFeeRule
+): number => {
+  const daysLate = differenceInCalendarDays(settledOn, row.dueDate);
+  if (daysLate <= rule.graceDays) return 0;
+
+  let accrued = 0;
+  let unpaid = row.installment;
+  let from = row.dueDate;
+  for (const { date, amount } of allocations) {
+    if (date > from) {
+      accrued += unpaid * rule.dailyRate * differenceInCalendarDays(date, from);
+      from = date;
+    }
+    unpaid -= amount;
+  }
+  if (unpaid > 0 && settledOn > from) {
+    accrued +=
+      unpaid * rule.dailyRate * differenceInCalendarDays(settledOn, from);
+  }
+
+  const fee = roundPiasters(rule.fixed + accrued, "down");
+  return rule.cap === null ? fee : Math.min(fee, rule.cap);
+};
+
+/**
+ * Works out what is overdue on `asOf` given the payments actually made, and
+ * the late fees each installment has run up. Payments settle installments
+ * only; fees are reported on top of what is overdue.
+ */
+export const calculateArrears = (
+  rows: ScheduleRow[],
+  payments: PaymentRecord[],
+  asOf: Date,
+  rule: LateFeeRule = DEFAULT_LATE_FEE_RULE
+): ArrearsSummary => {
+  const allocations = allocatePayments(
+    rows,
+    payments.filter((payment) => payment.date <= asOf)
+  );
+
+  const arrearsRows: ArrearsRow[] = rows.map((row, index) => {
+    const paid = allocations[index].reduce((sum, a) => sum + a.amount, 0);
+    const outstanding = row.installment - paid;
+    const paidOn =
+      outstanding === 0
+        ? (allocations[index].at(-1)?.date ?? row.dueDate)
+        : null;
+    const settledOn = paidOn ?? asOf;
+    const isDue = row.dueDate <= asOf;
+    return {
+      number: row.number,
+      dueDate: row.dueDate,
+      installment: row.installment,
+      paid,
+      outstanding,
+      paidOn,
+      daysOverdue: isDue
+        ? Math.max(0, differenceInCalendarDays(settledOn, row.dueDate))
+        : 0,
+      lateFee: isDue ? lateFeeFor(row, allocations[index], settledOn, rule) : 0,
+    };
+  });
+
+  const overdueAmount = arrearsRows
+    .filter((row) => row.dueDate <= asOf)
+    .reduce((sum, row) => sum + row.outstanding, 0);
+  const lateFees = arrearsRows.reduce((sum, row) => sum + row.lateFee, 0);
+
+  return {
+    rows: arrearsRows,
+    overdueAmount,
+    lateFees,
+    totalArrears: overdueAmount + lateFees,
+    maxDaysOverdue: Math.max(0, ...arrearsRows.map((row) => row.daysOverdue)),
+  };
+};
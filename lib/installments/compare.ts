@@ -0,0 +1,41 @@
+import { DEFAULT_INTEREST_METHOD, solvePlan } from "./engine";
+import type {
+  CompetitorOffer,
+  InterestMethod,
+  OfferComparison,
+  RateResolver,
+} from "./types";
+
+/**
+ * Reverse-engineers the flat rate and APR behind a competitor's quote and
+ * prices the same price, down payment and period with our own rates.
+ * Returns null when the offer cannot be solved.
+ */
+export const compareOffer = (
+  offer: CompetitorOffer,
+  rateFor: RateResolver,
+  method: InterestMethod = DEFAULT_INTEREST_METHOD
+): OfferComparison | null => {
+  const implied = solvePlan({ ...offer, method: "flat" }, { solveFor: "rate" });
+  if (!implied.ok) return null;
+
+  const ours = solvePlan(
+    {
+      price: offer.price,
+      downPayment: offer.downPayment,
+      period: offer.period,
+      method,
+    },
+    { solveFor: "installment", rateFor }
+  );
+  if (!ours.ok) return null;
+
+  return {
+    impliedFlatRate: implied.plan.monthlyRate,
+    offerDisclosure: implied.disclosure,
+    ourRate: ours.plan.monthlyRate,
+    ourInstallment: ours.plan.installment,
+    ourDisclosure: ours.disclosure,
+    installmentSaving: offer.installment - ours.plan.installment,
+  };
+};
@@ -0,0 +1,51 @@
+import rateCardData from "./data/rate-cards.json";
+import { monthsPerPeriod } from "./frequency";
+import { roundPiasters } from "./money";
+import type { DownPaymentPolicy, Plan, PlanWarning } from "./types";
+
+export const DOWN_PAYMENT_POLICIES: DownPaymentPolicy[] =
+  rateCardData.downPaymentPolicies;
+
+/**
+ * Minimum down payment share for a plan of `months` in `category`: the
+ * strictest policy that applies, or 0 when none does.
+ */
+export const minimumDownShare = (
+  category: string,
+  months: number,
+  policies: DownPaymentPolicy[] = DOWN_PAYMENT_POLICIES
+): number =>
+  policies
+    .filter(
+      (policy) =>
+        (policy.category === null || policy.category === category) &&
+        months >= policy.minPeriod
+    )
+    .reduce((share, policy) => Math.max(share, policy.minShare), 0);
+
+/**
+ * Checks the down payment of `plan` against the policies for `category`.
+ * A violation does not stop the plan from being calculated; it is a warning
+ * to show next to it.
+ */
+export const checkDownPaymentPolicy = (
+  plan: Plan,
+  category: string,
+  policies: DownPaymentPolicy[] = DOWN_PAYMENT_POLICIES
+): PlanWarning[] => {
+  const share = minimumDownShare(
+    category,
+    plan.period * monthsPerPeriod(plan.frequency),
+    policies
+  );
+  const minimum = roundPiasters(plan.price * share, "up");
+  if (plan.downPayment >= minimum) return [];
+  return [
+    {
+      code: "down-below-minimum",
+      severity: "warning",
+      field: "down",
+      params: { minimum, share },
+    },
+  ];
+};
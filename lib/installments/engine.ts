@@ -0,0 +1,1046 @@
+import { disclosePlan, discloseRate, finalPartialPayment } from "./apr";
+import {
+  DEFAULT_ROUNDING_MODE,
+  roundPiasters,
+  roundToStep,
+  type Piasters,
+  type RoundingMode,
+} from "./money";
+import {
+  DEFAULT_FREQUENCY,
+  monthlyRateOf,
+  monthsPerPeriod,
+  periodicRate,
+  profitGracePeriods,
+} from "./frequency";
+import {
+  feeCharges,
+  financedFeeTerms,
+  planFeeCharges,
+  planFinancedAmount,
+  sumFees,
+  type FeeTerms,
+} from "./fees";
+import {
+  installmentAt,
+  isLevelPattern,
+  largestInstallment,
+  LEVEL_PATTERN,
+  patternAmounts,
+  patternFirstInstallment,
+  smallestInstallment,
+} from "./installment-pattern";
+import { findRoot } from "./solver";
+import type {
+  BalloonPayment,
+  BudgetSuggestOptions,
+  BudgetSuggestion,
+  GracePeriod,
+  InstallmentPattern,
+  InstallmentRounding,
+  InterestMethod,
+  Plan,
+  PlanField,
+  PlanInput,
+  PlanTotals,
+  PaymentFrequency,
+  PlanWarning,
+  PlanWarningCode,
+  RateResolver,
+  SolveOptions,
+  SolveResult,
+  SuggestOptions,
+  Suggestion,
+  WhatIfRow,
+} from "./types";
+import { validatePlanInput } from "./validation";
+
+export const DEFAULT_MONTHLY_RATE = 0.04; // 4% monthly
+export const DEFAULT_INTEREST_METHOD: InterestMethod = "flat";
+export const DEFAULT_SUGGESTION_PERIODS = [3, 6, 9, 12, 15, 18];
+export const DEFAULT_DOWN_PAYMENT_SHARES = [0, 0.1, 0.2, 0.3, 0.4, 0.5];
+export const NO_GRACE: GracePeriod = { months: 0, chargeProfit: false };
+export const DEFAULT_INSTALLMENT_ROUNDING: InstallmentRounding = {
+  step: 1,
+  mode: DEFAULT_ROUNDING_MODE,
+  remainderTo: "last",
+};
+
+const MAX_RATE_ITERATIONS = 10;
+// Keeps 11.9999999 months from rounding up to 13 or down to 11
+const PERIOD_EPSILON = 1e-9;
+
+const SOLVABLE_FIELDS: PlanField[] = ["price", "period", "installment"];
+
+export const calculateInstallment = (
+  price: number,
+  down: number,
+  period: number,
+  rate: number = DEFAULT_MONTHLY_RATE,
+  method: InterestMethod = DEFAULT_INTEREST_METHOD,
+  gracePeriods = 0,
+  balloon = 0
+): number => {
+  const remainingAmount = price - down;
+  if (method === "reducing" && rate > 0) {
+    const balance = remainingAmount * Math.pow(1 + rate, gracePeriods);
+    // The installments pay off the balance less what the balloon is worth today
+    const discount = Math.pow(1 + rate, -period);
+    return ((balance - balloon * discount) * rate) / (1 - discount);
+  }
+  // Flat profit is charged on the full amount, balloon included
+  const totalWithProfit =
+    remainingAmount * (1 + rate * (period + gracePeriods));
+  return (totalWithProfit - balloon) / period;
+};
+
+/**
+ * Amount that `period` installments of `installment` plus a final `balloon`
+ * can finance.
+ */
+const financedByInstallments = (
+  installment: number,
+  period: number,
+  rate: number,
+  method: InterestMethod,
+  gracePeriods: number,
+  balloon: number
+): number => {
+  if (method === "reducing" && rate > 0) {
+    const discount = Math.pow(1 + rate, -period);
+    return (
+      ((installment * (1 - discount)) / rate + balloon * discount) /
+      Math.pow(1 + rate, gracePeriods)
+    );
+  }
+  // installment * period + balloon =
+  //   financed * (1 + rate * (period + gracePeriods))
+  return (
+    (installment * period + balloon) / (1 + rate * (period + gracePeriods))
+  );
+};
+
+export const calculateDownPayment = (
+  price: number,
+  installment: number,
+  period: number,
+  rate: number = DEFAULT_MONTHLY_RATE,
+  method: InterestMethod = DEFAULT_INTEREST_METHOD,
+  gracePeriods = 0,
+  balloon = 0
+): number => {
+  return (
+    price -
+    financedByInstallments(
+      installment,
+      period,
+      rate,
+      method,
+      gracePeriods,
+      balloon
+    )
+  );
+};
+
+export const calculatePeriod = (
+  price: number,
+  down: number,
+  installment: number,
+  rate: number = DEFAULT_MONTHLY_RATE,
+  method: InterestMethod = DEFAULT_INTEREST_METHOD,
+  gracePeriods = 0,
+  balloon = 0
+): number => {
+  const remainingAmount = price - down;
+  // Both methods need the installment to exceed one month of profit on the
+  // full balance, otherwise the balance is never paid off.
+  if (method === "reducing" && rate > 0) {
+    const balance = remainingAmount * Math.pow(1 + rate, gracePeriods);
+    const denominator = installment - balance * rate;
+    if (denominator <= 0) return 0;
+    // Solving: installment * (1 - v) / rate + balloon * v = balance, where
+    // v = (1 + rate)^-period
+    const discount = denominator / (installment - balloon * rate);
+    return -Math.log(discount) / Math.log(1 + rate);
+  }
+  const denominator = installment - remainingAmount * rate;
+  if (denominator <= 0) return 0;
+  // Solving: installment * period + balloon =
+  //   remainingAmount * (1 + rate * (period + grace))
+  // Rearranging: period * (installment - remainingAmount * rate) =
+  //   remainingAmount * (1 + rate * grace) - balloon
+  return (remainingAmount * (1 + rate * gracePeriods) - balloon) / denominator;
+};
+
+export const calculatePrice = (
+  down: number,
+  installment: number,
+  period: number,
+  rate: number = DEFAULT_MONTHLY_RATE,
+  method: InterestMethod = DEFAULT_INTEREST_METHOD,
+  gracePeriods = 0,
+  balloon = 0
+): number => {
+  return (
+    down +
+    financedByInstallments(
+      installment,
+      period,
+      rate,
+      method,
+      gracePeriods,
+      balloon
+    )
+  );
+};
+
+/**
+ * Rate per period that the installments pay. Negative under the flat method
+ * when they do not cover the financed amount; NaN under the reducing method
+ * when no rate up to 100% fits.
+ */
+export const calculateRate = (
+  price: number,
+  down: number,
+  installment: number,
+  period: number,
+  method: InterestMethod = DEFAULT_INTEREST_METHOD,
+  gracePeriods = 0,
+  balloon = 0
+): number => {
+  const remainingAmount = price - down;
+  if (remainingAmount <= 0 || period <= 0) return 0;
+  if (method === "reducing") {
+    const rate = findRoot(
+      (r) =>
+        financedByInstallments(
+          installment,
+          period,
+          r,
+          method,
+          gracePeriods,
+          balloon
+        ) - remainingAmount,
+      1e-9,
+      1
+    );
+    return rate ?? NaN;
+  }
+  return (
+    ((installment * period + balloon) / remainingAmount - 1) /
+    (period + gracePeriods)
+  );
+};
+
+/** Balloon amount of `balloon` for a plan priced at `price`. */
+export const balloonAmount = (
+  balloon: BalloonPayment | undefined,
+  price: Piasters
+): Piasters => {
+  if (!balloon) return 0;
+  return balloon.kind === "amount"
+    ? balloon.amount
+    : roundPiasters(price * balloon.share);
+};
+
+/**
+ * Price that the installments cover. A balloon set as a share of the price
+ * and the financed fees both grow with the price itself, and the amount the
+ * installments finance is linear in each, so the price solves
+ * financed + share * price * (financed per unit of balloon) =
+ *   (price - down) * (1 + ofFinanced) + ofPrice * price + fixed.
+ */
+const solvePrice = (
+  down: number,
+  installment: number,
+  period: number,
+  rate: number,
+  method: InterestMethod,
+  gracePeriods: number,
+  balloon: BalloonPayment | undefined,
+  fees: FeeTerms
+): number => {
+  const share = balloon?.kind === "share" ? balloon.share : 0;
+  const financed = financedByInstallments(
+    installment,
+    period,
+    rate,
+    method,
+    gracePeriods,
+    balloonAmount(balloon, 0)
+  );
+  const perBalloon = financedByInstallments(
+    0,
+    period,
+    rate,
+    method,
+    gracePeriods,
+    1
+  );
+  return (
+    (down * (1 + fees.ofFinanced) + financed - fees.fixed) /
+    (1 + fees.ofFinanced + fees.ofPrice - share * perBalloon)
+  );
+};
+
+/**
+ * Down payment that leaves the installments `financed` to pay off, fees
+ * included: financed = (price - down) * (1 + ofFinanced) + ofPrice * price +
+ * fixed.
+ */
+const solveDownPayment = (
+  price: number,
+  financed: number,
+  fees: FeeTerms
+): number =>
+  price -
+  (financed - fees.fixed - fees.ofPrice * price) / (1 + fees.ofFinanced);
+
+/** Profit rate per installment period of `plan`. */
+export const planPeriodicRate = (plan: Plan): number =>
+  periodicRate(plan.monthlyRate, plan.frequency, plan.method);
+
+/**
+ * What the installments add up to before rounding, from the exact
+ * installment the plan's terms call for.
+ */
+const exactInstallmentsTotal = (plan: Plan): number => {
+  const financedAmount = planFinancedAmount(plan);
+  const rate = planPeriodicRate(plan);
+  const gracePeriods = profitGracePeriods(plan.grace, plan.frequency);
+  if (isLevelPattern(plan)) {
+    const installment = calculateInstallment(
+      financedAmount,
+      0,
+      plan.period,
+      rate,
+      plan.method,
+      gracePeriods,
+      plan.balloon
+    );
+    return (
+      installment * Math.floor(plan.period) +
+      finalPartialPayment(
+        financedAmount,
+        installment,
+        plan.period,
+        rate,
+        plan.method,
+        gracePeriods,
+        plan.balloon
+      )
+    );
+  }
+  const regular = patternFirstInstallment(
+    financedAmount,
+    plan.period,
+    rate,
+    plan.method,
+    gracePeriods,
+    plan.balloon,
+    plan
+  );
+  let total = 0;
+  for (let index = 0; index < plan.period; index++) {
+    total += installmentAt(regular, index, plan);
+  }
+  return total;
+};
+
+/** Sum of the plan's regular installments, before any adjustment. */
+const regularInstallmentsTotal = (
+  plan: Plan,
+  rounding: RoundingMode
+): Piasters =>
+  isLevelPattern(plan)
+    ? roundPiasters(
+        plan.installment * Math.floor(plan.period) +
+          finalPartialPayment(
+            planFinancedAmount(plan),
+            plan.installment,
+            plan.period,
+            planPeriodicRate(plan),
+            plan.method,
+            profitGracePeriods(plan.grace, plan.frequency),
+            plan.balloon
+          ),
+        rounding
+      )
+    : patternAmounts(plan.installment, plan.period, plan, rounding).reduce(
+        (sum, amount) => sum + amount,
+        0
+      );
+
+export const calculateTotals = (
+  plan: Plan,
+  rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+): PlanTotals => {
+  const fees = planFeeCharges(plan);
+  const upfrontFees = sumFees(fees, "upfront");
+  const financedFees = sumFees(fees, "financed");
+  const financedAmount = plan.price - plan.downPayment + financedFees;
+  const totalProfit = roundPiasters(
+    exactInstallmentsTotal(plan) + plan.balloon - financedAmount,
+    rounding
+  );
+  const totalWithProfit = plan.price + upfrontFees + financedFees + totalProfit;
+  const totalPaid =
+    plan.downPayment +
+    upfrontFees +
+    regularInstallmentsTotal(plan, rounding) +
+    plan.adjustment +
+    plan.balloon;
+
+  // A fractional period ends with whatever the full installments leave over
+  const installmentCount = Math.ceil(plan.period);
+  const lastInstallment = roundPiasters(
+    installmentAt(plan.installment, installmentCount - 1, plan),
+    rounding
+  );
+  const finalInstallment = Number.isInteger(plan.period)
+    ? lastInstallment + (plan.remainderTo === "last" ? plan.adjustment : 0)
+    : financedAmount +
+      totalProfit -
+      plan.balloon -
+      plan.installment * (installmentCount - 1);
+
+  return {
+    financedAmount,
+    totalProfit,
+    totalWithProfit,
+    totalPaid,
+    missingAmount: totalWithProfit - totalPaid,
+    installmentCount,
+    finalInstallment,
+    fees,
+    upfrontFees,
+    financedFees,
+  };
+};
+
+/**
+ * Regular installment: the only one of a level plan, the first of a
+ * graduated one.
+ */
+const regularInstallment = (
+  price: number,
+  down: number,
+  period: number,
+  rate: number,
+  method: InterestMethod,
+  gracePeriods: number,
+  balloon: number,
+  pattern: InstallmentPattern
+): number =>
+  isLevelPattern(pattern)
+    ? calculateInstallment(
+        price,
+        down,
+        period,
+        rate,
+        method,
+        gracePeriods,
+        balloon
+      )
+    : patternFirstInstallment(
+        price - down,
+        period,
+        rate,
+        method,
+        gracePeriods,
+        balloon,
+        pattern
+      );
+
+const isMissing = (input: PlanInput, field: PlanField): boolean => {
+  if (field === "price") return input.price === undefined;
+  if (field === "period") return input.period === undefined;
+  return input.installment === undefined;
+};
+
+const findUnknown = (input: PlanInput): PlanField | null | undefined => {
+  const missing = SOLVABLE_FIELDS.filter((field) => isMissing(input, field));
+  if (missing.length > 1) return undefined;
+  return missing[0] ?? null;
+};
+
+/**
+ * Solves the period when the rate itself depends on the period: re-solves
+ * with the rate of the band the result lands in until the rate settles.
+ */
+const solvePeriod = (
+  price: number,
+  down: number,
+  installment: number,
+  method: InterestMethod,
+  rateFor: RateResolver,
+  toPeriodic: (monthlyRate: number) => number,
+  gracePeriods: number,
+  balloon: number
+): { period: number; monthlyRate: number } => {
+  let monthlyRate = rateFor(1);
+  let period = 0;
+  for (let i = 0; i < MAX_RATE_ITERATIONS; i++) {
+    period = calculatePeriod(
+      price,
+      down,
+      installment,
+      toPeriodic(monthlyRate),
+      method,
+      gracePeriods,
+      balloon
+    );
+    if (period <= 0) break;
+    const nextRate = rateFor(Math.ceil(period));
+    if (nextRate === monthlyRate) break;
+    monthlyRate = nextRate;
+  }
+  return { period, monthlyRate };
+};
+
+/**
+ * Smallest installment that ever pays off `financed`: it has to exceed a
+ * period of profit on the full balance at the rate a very long plan gets.
+ */
+const minimumInstallment = (
+  financed: Piasters,
+  rate: number,
+  method: InterestMethod,
+  gracePeriods: number
+): Piasters => {
+  // Under the reducing method grace profit is added to the balance first
+  const balance =
+    method === "reducing"
+      ? financed * Math.pow(1 + rate, gracePeriods)
+      : financed;
+  return roundPiasters(balance * rate, "down") + 1;
+};
+
+/** True when the balloon leaves nothing for the installments to pay off. */
+const balloonExceedsFinanced = (plan: Plan): boolean =>
+  plan.balloon > 0 && plan.balloon >= planFinancedAmount(plan);
+
+/**
+ * Graduated and overridden installments are only solved for: the regular
+ * installment of a plan with a whole number of installments.
+ */
+const unsupportedPattern = (
+  input: PlanInput,
+  solveFor: PlanField | null
+): PlanWarningCode | null => {
+  if (solveFor === "installment" && Number.isInteger(input.period)) {
+    return null;
+  }
+  if (input.graduation) return "graduation-needs-installment";
+  if (input.overrides) return "overrides-need-installment";
+  return null;
+};
+
+const BALLOON_EXCEEDS_FINANCED: PlanWarning = {
+  code: "balloon-exceeds-financed",
+  severity: "error",
+};
+
+/**
+ * Solves a partial plan for its single unknown field and checks that the
+ * payments cover the price plus profit. The down payment defaults to 0 unless
+ * it is the unknown, and the method to `DEFAULT_INTEREST_METHOD`. Without a
+ * `monthlyRate` the rate comes from `options.rateFor`, or
+ * `DEFAULT_MONTHLY_RATE` when there is no resolver.
+ * `solvedFor` is null when every field was given and the plan was only checked.
+ */
+export const solvePlan = (
+  input: PlanInput,
+  options: SolveOptions = {}
+): SolveResult => {
+  const solveFor =
+    options.solveFor === undefined ? findUnknown(input) : options.solveFor;
+
+  if (solveFor === undefined) {
+    return {
+      ok: false,
+      solvedFor: null,
+      warnings: [{ code: "insufficient-inputs", severity: "error" }],
+    };
+  }
+
+  const missing = SOLVABLE_FIELDS.filter(
+    (field) => field !== solveFor && isMissing(input, field)
+  );
+  if (missing.length > 0) {
+    return {
+      ok: false,
+      solvedFor: solveFor,
+      warnings: missing.map((field) => ({
+        code: "insufficient-inputs",
+        severity: "error",
+        field,
+      })),
+    };
+  }
+
+  const invalid = validatePlanInput(input, solveFor);
+  if (invalid.length > 0) {
+    return { ok: false, solvedFor: solveFor, warnings: invalid };
+  }
+  const unsupported = unsupportedPattern(input, solveFor);
+  if (unsupported) {
+    return {
+      ok: false,
+      solvedFor: solveFor,
+      warnings: [{ code: unsupported, severity: "error" }],
+    };
+  }
+
+  const warnings: PlanWarning[] = [];
+  const price = input.price ?? 0;
+  const downPayment = input.downPayment ?? 0;
+  const period = input.period ?? 0;
+  const installment = input.installment ?? 0;
+  const method = input.method ?? DEFAULT_INTEREST_METHOD;
+  const frequency = input.frequency ?? DEFAULT_FREQUENCY;
+  const monthlyRateFor: RateResolver =
+    input.monthlyRate !== undefined
+      ? () => input.monthlyRate as number
+      : (options.rateFor ?? (() => DEFAULT_MONTHLY_RATE));
+  // Rate cards are banded by months while the solvers count installments
+  // and need the rate per installment period.
+  const rateFor: RateResolver = (count) =>
+    monthlyRateFor(count * monthsPerPeriod(frequency));
+  const toPeriodic = (rate: number) => periodicRate(rate, frequency, method);
+  const monthlyRate = rateFor(period);
+  const grace = input.grace ?? NO_GRACE;
+  const gracePeriods = profitGracePeriods(grace, frequency);
+  const balloon = balloonAmount(input.balloon, price);
+  const rounding = options.rounding ?? DEFAULT_ROUNDING_MODE;
+  const installmentRounding =
+    options.installmentRounding ?? DEFAULT_INSTALLMENT_ROUNDING;
+  const periodRounding = options.periodRounding ?? "final-installment";
+  let installmentSolved = false;
+
+  const plan: Plan = {
+    price,
+    downPayment,
+    period,
+    installment,
+    monthlyRate,
+    method,
+    grace,
+    frequency,
+    balloon,
+    graduation: input.graduation ?? null,
+    overrides: input.overrides ?? [],
+    fees: input.fees ?? [],
+    remainderTo: installmentRounding.remainderTo,
+    adjustment: 0,
+  };
+  // Fees known up front are financed along with the price; solving the
+  // price or down payment works them out from `feeTerms` instead.
+  const financedFees = sumFees(
+    feeCharges(plan.fees, price, downPayment),
+    "financed"
+  );
+  const feeTerms = financedFeeTerms(plan.fees);
+
+  switch (solveFor) {
+    case "installment":
+      installmentSolved = true;
+      plan.installment = roundToStep(
+        regularInstallment(
+          price + financedFees,
+          downPayment,
+          period,
+          toPeriodic(monthlyRate),
+          method,
+          gracePeriods,
+          balloon,
+          plan
+        ),
+        installmentRounding.step,
+        installmentRounding.mode
+      );
+      if (Number.isNaN(plan.installment)) {
+        return {
+          ok: false,
+          solvedFor: solveFor,
+          warnings: [{ code: "all-installments-skipped", severity: "error" }],
+        };
+      }
+      if (smallestInstallment(plan.installment, period, plan.graduation) <= 0) {
+        // Bonuses that pay off more than is owed, or a step-down by an
+        // amount that outlasts the installment
+        return {
+          ok: false,
+          solvedFor: solveFor,
+          warnings: [
+            {
+              code: "installment-not-positive",
+              severity: "error",
+              field: "installment",
+            },
+          ],
+        };
+      }
+      break;
+    case "period":
+      if (price <= downPayment) {
+        return {
+          ok: false,
+          solvedFor: solveFor,
+          warnings: [
+            { code: "down-exceeds-price", severity: "error", field: "down" },
+          ],
+        };
+      }
+      if (balloonExceedsFinanced(plan)) {
+        return {
+          ok: false,
+          solvedFor: solveFor,
+          warnings: [BALLOON_EXCEEDS_FINANCED],
+        };
+      }
+      Object.assign(
+        plan,
+        solvePeriod(
+          price + financedFees,
+          downPayment,
+          installment,
+          method,
+          rateFor,
+          toPeriodic,
+          gracePeriods,
+          balloon
+        )
+      );
+      if (plan.period <= 0) {
+        return {
+          ok: false,
+          solvedFor: solveFor,
+          warnings: [
+            {
+              code: "installment-too-low",
+              severity: "error",
+              field: "installment",
+              params: {
+                minimum: minimumInstallment(
+                  price + financedFees - downPayment,
+                  toPeriodic(rateFor(Infinity)),
+                  method,
+                  gracePeriods
+                ),
+              },
+            },
+          ],
+        };
+      }
+      if (periodRounding !== "final-installment") {
+        // Whole months only: re-solve the installment for the rounded period
+        plan.period = Math.max(
+          1,
+          periodRounding === "up"
+            ? Math.ceil(plan.period - PERIOD_EPSILON)
+            : Math.floor(plan.period + PERIOD_EPSILON)
+        );
+        plan.monthlyRate = rateFor(plan.period);
+        plan.installment = roundToStep(
+          calculateInstallment(
+            price + financedFees,
+            downPayment,
+            plan.period,
+            toPeriodic(plan.monthlyRate),
+            method,
+            gracePeriods,
+            balloon
+          ),
+          installmentRounding.step,
+          installmentRounding.mode
+        );
+        installmentSolved = true;
+      }
+      break;
+    case "down":
+      plan.downPayment = roundPiasters(
+        solveDownPayment(
+          price,
+          financedByInstallments(
+            installment,
+            period,
+            toPeriodic(monthlyRate),
+            method,
+            gracePeriods,
+            balloon
+          ),
+          feeTerms
+        ),
+        rounding
+      );
+      break;
+    case "price":
+      plan.price = roundPiasters(
+        solvePrice(
+          downPayment,
+          installment,
+          period,
+          toPeriodic(monthlyRate),
+          method,
+          gracePeriods,
+          input.balloon,
+          feeTerms
+        ),
+        rounding
+      );
+      plan.balloon = balloonAmount(input.balloon, plan.price);
+      break;
+    case "rate":
+      plan.monthlyRate = monthlyRateOf(
+        calculateRate(
+          price + financedFees,
+          downPayment,
+          installment,
+          period,
+          method,
+          gracePeriods,
+          balloon
+        ),
+        frequency,
+        method
+      );
+      if (!(plan.monthlyRate >= 0 && plan.monthlyRate <= 1)) {
+        return {
+          ok: false,
+          solvedFor: solveFor,
+          warnings: [
+            { code: "rate-not-found", severity: "error", field: "installment" },
+          ],
+        };
+      }
+      break;
+  }
+
+  if (balloonExceedsFinanced(plan)) {
+    return {
+      ok: false,
+      solvedFor: solveFor,
+      warnings: [BALLOON_EXCEEDS_FINANCED],
+    };
+  }
+
+  if (plan.downPayment < 0) {
+    // The installment pays off more than the whole price; report what it
+    // would be with no down payment at all.
+    warnings.push({
+      code: "negative-down-payment",
+      severity: "warning",
+      field: "down",
+      params: {
+        downPayment: plan.downPayment,
+        installmentWithoutDown: roundPiasters(
+          calculateInstallment(
+            plan.price +
+              sumFees(feeCharges(plan.fees, plan.price, 0), "financed"),
+            0,
+            plan.period,
+            toPeriodic(plan.monthlyRate),
+            method,
+            gracePeriods,
+            plan.balloon
+          ),
+          rounding
+        ),
+      },
+    });
+  } else if (plan.downPayment >= plan.price) {
+    return {
+      ok: false,
+      solvedFor: solveFor,
+      warnings: [
+        { code: "down-exceeds-price", severity: "error", field: "down" },
+      ],
+    };
+  }
+
+  if (!Number.isInteger(plan.period)) {
+    warnings.push({
+      code: "fractional-period",
+      severity: "info",
+      field: "period",
+      params: { period: plan.period },
+    });
+  }
+
+  if (installmentSolved && Number.isInteger(plan.period)) {
+    const { financedAmount, totalProfit } = calculateTotals(plan, rounding);
+    plan.adjustment =
+      financedAmount +
+      totalProfit -
+      plan.balloon -
+      regularInstallmentsTotal(plan, rounding);
+    // A coarse step rounded up can overpay by more than the installment
+    // that takes the difference
+    const count = Math.ceil(plan.period);
+    const adjusted = patternAmounts(plan.installment, count, plan, rounding)[
+      plan.remainderTo === "first" ? 0 : count - 1
+    ];
+    if (plan.adjustment < 0 && adjusted + plan.adjustment <= 0) {
+      return {
+        ok: false,
+        solvedFor: solveFor,
+        warnings: [
+          {
+            code: "rounding-step-too-large",
+            severity: "error",
+            field: "installment",
+            params: { step: installmentRounding.step },
+          },
+        ],
+      };
+    }
+  }
+
+  // An installment typed in by hand and rounded to a piaster can leave up
+  // to one piaster per installment unpaid; anything more is a real shortfall.
+  const totals = calculateTotals(plan, rounding);
+  if (totals.missingAmount > Math.ceil(plan.period)) {
+    warnings.push({
+      code: "shortfall",
+      severity: "warning",
+      params: { missingAmount: totals.missingAmount },
+    });
+  }
+
+  return {
+    ok: true,
+    solvedFor: solveFor,
+    plan,
+    totals,
+    disclosure: disclosePlan(plan),
+    warnings,
+  };
+};
+
+export const suggestPlans = (
+  price: Piasters,
+  down: Piasters,
+  options: SuggestOptions = {}
+): Suggestion[] => {
+  const {
+    periods = DEFAULT_SUGGESTION_PERIODS,
+    rate = DEFAULT_MONTHLY_RATE,
+    method = DEFAULT_INTEREST_METHOD,
+    installmentRounding = DEFAULT_INSTALLMENT_ROUNDING,
+    grace = NO_GRACE,
+    frequency = DEFAULT_FREQUENCY,
+  } = options;
+  const months = monthsPerPeriod(frequency);
+  const balloon = balloonAmount(options.balloon, price);
+  // Overrides depend on the dates of each plan, so suggestions leave them out
+  const pattern: InstallmentPattern = {
+    ...LEVEL_PATTERN,
+    graduation: options.graduation ?? null,
+  };
+
+  const fees = feeCharges(options.fees ?? [], price, down);
+  const financedFees = sumFees(fees, "financed");
+
+  return periods.flatMap((period) => {
+    const monthlyRate = typeof rate === "number" ? rate : rate(period * months);
+    const installment = roundToStep(
+      regularInstallment(
+        price + financedFees,
+        down,
+        period,
+        periodicRate(monthlyRate, frequency, method),
+        method,
+        profitGracePeriods(grace, frequency),
+        balloon,
+        pattern
+      ),
+      installmentRounding.step,
+      installmentRounding.mode
+    );
+    // A period long enough for a step-down to reach zero has no plan
+    if (smallestInstallment(installment, period, pattern.graduation) <= 0) {
+      return [];
+    }
+    return {
+      period,
+      installment,
+      maxInstallment: largestInstallment(
+        installment,
+        period,
+        pattern.graduation
+      ),
+      monthlyRate,
+      disclosure: discloseRate(
+        // The customer only receives what the upfront fees leave of the loan
+        price - down - sumFees(fees, "upfront"),
+        installment,
+        period,
+        grace.months,
+        frequency,
+        balloon,
+        pattern
+      ),
+    };
+  });
+};
+
+/**
+ * Suggests a plan for every period at each down payment share of the price:
+ * one row per share, one cell per period that has a plan.
+ */
+export const buildWhatIfMatrix = (
+  price: Piasters,
+  options: BudgetSuggestOptions = {}
+): WhatIfRow[] => {
+  const { downPaymentShares = DEFAULT_DOWN_PAYMENT_SHARES, ...suggestOptions } =
+    options;
+  return downPaymentShares.map((share) => {
+    const downPayment = roundPiasters(price * share);
+    return {
+      share,
+      downPayment,
+      cells: suggestPlans(price, downPayment, suggestOptions),
+    };
+  });
+};
+
+/**
+ * Lists every period and down payment combination whose installment fits
+ * within `budget`, cheapest in total first.
+ */
+export const suggestBudgetPlans = (
+  price: Piasters,
+  budget: Piasters,
+  options: BudgetSuggestOptions = {}
+): BudgetSuggestion[] => {
+  const method = options.method ?? DEFAULT_INTEREST_METHOD;
+  const { remainderTo } =
+    options.installmentRounding ?? DEFAULT_INSTALLMENT_ROUNDING;
+
+  return buildWhatIfMatrix(price, options)
+    .flatMap(({ downPayment, cells }) =>
+      cells.map((suggestion) => ({ ...suggestion, downPayment }))
+    )
+    .filter((suggestion) => suggestion.maxInstallment <= budget)
+    .map((suggestion) => {
+      const { totalWithProfit } = calculateTotals({
+        price,
+        downPayment: suggestion.downPayment,
+        period: suggestion.period,
+        installment: suggestion.installment,
+        monthlyRate: suggestion.monthlyRate,
+        method,
+        grace: options.grace ?? NO_GRACE,
+        frequency: options.frequency ?? DEFAULT_FREQUENCY,
+        balloon: balloonAmount(options.balloon, price),
+        graduation: options.graduation ?? null,
+        overrides: [],
+        fees: options.fees ?? [],
+        remainderTo,
+        adjustment: 0,
+      });
+      return { ...suggestion, totalCost: totalWithProfit };
+    })
+    .sort((a, b) => a.totalCost - b.totalCost || a.period - b.period);
+};
@@ -0,0 +1,57 @@
+import { roundPiasters, type Piasters } from "./money";
+import type { FeeCharge, FeePayment, FeeRule, Plan } from "./types";
+
+/**
+ * Financed fees broken down by what they grow with, so that a price or down
+ * payment can be solved with them: fees = fixed + ofPrice * price +
+ * ofFinanced * (price - down payment).
+ */
+export interface FeeTerms {
+  fixed: number;
+  ofPrice: number;
+  ofFinanced: number;
+}
+
+/** Amount of every fee for a plan of `price` less `downPayment`. */
+export const feeCharges = (
+  rules: FeeRule[],
+  price: Piasters,
+  downPayment: Piasters
+): FeeCharge[] =>
+  rules.map((rule) => ({
+    type: rule.type,
+    payment: rule.payment,
+    amount:
+      rule.basis === "fixed"
+        ? rule.value
+        : roundPiasters(
+            rule.value * (rule.basis === "price" ? price : price - downPayment)
+          ),
+  }));
+
+export const planFeeCharges = (plan: Plan): FeeCharge[] =>
+  feeCharges(plan.fees, plan.price, plan.downPayment);
+
+/** Total of the charges paid `payment`. */
+export const sumFees = (charges: FeeCharge[], payment: FeePayment): Piasters =>
+  charges
+    .filter((charge) => charge.payment === payment)
+    .reduce((sum, charge) => sum + charge.amount, 0);
+
+export const financedFeeTerms = (rules: FeeRule[]): FeeTerms => {
+  const terms: FeeTerms = { fixed: 0, ofPrice: 0, ofFinanced: 0 };
+  for (const rule of rules) {
+    if (rule.payment !== "financed") continue;
+    if (rule.basis === "fixed") terms.fixed += rule.value;
+    else if (rule.basis === "price") terms.ofPrice += rule.value;
+    else terms.ofFinanced += rule.value;
+  }
+  return terms;
+};
+
+/**
+ * Price less down payment, plus the fees financed with it: what the
+ * installments pay off.
+ */
+export const planFinancedAmount = (plan: Plan): Piasters =>
+  plan.price - plan.downPayment + sumFees(planFeeCharges(plan), "financed");
@@ -0,0 +1,90 @@
+import { addMonths, addWeeks } from "date-fns";
+import type { GracePeriod, InterestMethod, PaymentFrequency } from "./types";
+
+export const DEFAULT_FREQUENCY: PaymentFrequency = "monthly";
+
+export const PERIODS_PER_YEAR: Record<PaymentFrequency, number> = {
+  weekly: 52,
+  biweekly: 26,
+  monthly: 12,
+  quarterly: 4,
+  semiannual: 2,
+};
+
+/** Length of one installment period in months, e.g. 3 for quarterly. */
+export const monthsPerPeriod = (frequency: PaymentFrequency): number =>
+  12 / PERIODS_PER_YEAR[frequency];
+
+/**
+ * Rate per installment period for a monthly rate. Flat profit scales with
+ * time; reducing-balance profit compounds, so the period rate keeps the
+ * same effective annual rate.
+ */
+export const periodicRate = (
+  monthlyRate: number,
+  frequency: PaymentFrequency,
+  method: InterestMethod
+): number => {
+  const months = monthsPerPeriod(frequency);
+  return method === "reducing"
+    ? Math.pow(1 + monthlyRate, months) - 1
+    : monthlyRate * months;
+};
+
+/**
+ * Installment periods of grace that earn profit: none unless the grace
+ * charges profit.
+ */
+export const profitGracePeriods = (
+  grace: GracePeriod,
+  frequency: PaymentFrequency
+): number =>
+  grace.chargeProfit ? grace.months / monthsPerPeriod(frequency) : 0;
+
+/** Inverse of `periodicRate`. */
+export const monthlyRateOf = (
+  rate: number,
+  frequency: PaymentFrequency,
+  method: InterestMethod
+): number => {
+  const months = monthsPerPeriod(frequency);
+  return method === "reducing"
+    ? Math.pow(1 + rate, 1 / months) - 1
+    : rate / months;
+};
+
+/**
+ * Date `count` installment periods after `date`, plus `months` whole months
+ * ahead of them. Month-based frequencies add everything in one step so the
+ * day of the month does not drift.
+ */
+export const addPeriods = (
+  date: Date,
+  count: number,
+  frequency: PaymentFrequency,
+  months = 0
+): Date => {
+  switch (frequency) {
+    case "weekly":
+      return addWeeks(addMonths(date, months), count);
+    case "biweekly":
+      return addWeeks(addMonths(date, months), count * 2);
+    default:
+      return addMonths(date, months + count * monthsPerPeriod(frequency));
+  }
+};
+
+/**
+ * Installment counts covering the same spans as `months`, e.g. 3 and 6
+ * months quarterly are 1 and 2 installments. Spans shorter than one period
+ * are dropped.
+ */
+export const periodsForMonths = (
+  months: number[],
+  frequency: PaymentFrequency
+): number[] => {
+  const counts = months
+    .map((span) => Math.round(span / monthsPerPeriod(frequency)))
+    .filter((count) => count >= 1);
+  return [...new Set(counts)];
+};
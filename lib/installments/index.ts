@@ -0,0 +1,16 @@
+export * from "./types";
+export * from "./engine";
+export * from "./apr";
+export * from "./solver";
+export * from "./rate-cards";
+export * from "./schedule";
+export * from "./money";
+export * from "./compare";
+export * from "./validation";
+export * from "./affordability";
+export * from "./settlement";
+export * from "./arrears";
+export * from "./frequency";
+export * from "./installment-pattern";
+export * from "./fees";
+export * from "./down-payment-policy";
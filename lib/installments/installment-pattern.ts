@@ -0,0 +1,149 @@
+import { getMonth } from "date-fns";
+import { addPeriods } from "./frequency";
+import { roundPiasters, type Piasters, type RoundingMode } from "./money";
+import type {
+  GraduatedPayment,
+  InstallmentOverride,
+  InstallmentPattern,
+  InterestMethod,
+  MonthOverride,
+  PaymentFrequency,
+} from "./types";
+
+/** Level installments: no graduation and no overrides. */
+export const LEVEL_PATTERN: InstallmentPattern = {
+  graduation: null,
+  overrides: [],
+};
+
+export const isLevelPattern = (pattern: InstallmentPattern): boolean =>
+  !pattern.graduation && pattern.overrides.length === 0;
+
+/** Graduated installment at 0-based `index`, before any override. */
+const graduatedInstallment = (
+  first: number,
+  index: number,
+  graduation: GraduatedPayment | null
+): number => {
+  if (!graduation) return first;
+  const steps = Math.floor(index / graduation.every);
+  return graduation.kind === "percent"
+    ? first * Math.pow(1 + graduation.step, steps)
+    : first + graduation.step * steps;
+};
+
+/**
+ * Installment at 0-based `index` of a plan whose first regular installment
+ * is `first`: graduated, then skipped or topped up by its override.
+ */
+export const installmentAt = (
+  first: number,
+  index: number,
+  pattern: InstallmentPattern
+): number => {
+  const override = pattern.overrides.find((item) => item.index === index);
+  if (override?.kind === "skip") return 0;
+  return (
+    graduatedInstallment(first, index, pattern.graduation) +
+    (override?.amount ?? 0)
+  );
+};
+
+/**
+ * Largest of `count` installments graduated from `first`: the last one of a
+ * step-up plan, the first otherwise. Overrides are left out, since a bonus
+ * is a one-off payment rather than the installment to budget for.
+ */
+export const largestInstallment = (
+  first: Piasters,
+  count: number,
+  graduation: GraduatedPayment | null
+): Piasters =>
+  roundPiasters(
+    Math.max(first, graduatedInstallment(first, count - 1, graduation))
+  );
+
+/**
+ * Smallest of `count` installments graduated from `first`: the last one of
+ * a step-down plan, the first otherwise. Overrides are left out as in
+ * `largestInstallment`.
+ */
+export const smallestInstallment = (
+  first: Piasters,
+  count: number,
+  graduation: GraduatedPayment | null
+): Piasters =>
+  roundPiasters(
+    Math.min(first, graduatedInstallment(first, count - 1, graduation))
+  );
+
+/** The `count` installments of a plan, in whole piasters. */
+export const patternAmounts = (
+  first: Piasters,
+  count: number,
+  pattern: InstallmentPattern,
+  rounding?: RoundingMode
+): Piasters[] =>
+  Array.from({ length: count }, (_, index) =>
+    roundPiasters(installmentAt(first, index, pattern), rounding)
+  );
+
+/**
+ * First regular installment of a plan of `count` installments. Every
+ * installment is `first * multiplier + offset`, so the first one follows
+ * from a single linear equation: under the flat method the installments
+ * add up to the financed amount plus profit, under the reducing method
+ * their present value pays off the balance. NaN when every installment is
+ * skipped.
+ */
+export const patternFirstInstallment = (
+  financed: number,
+  count: number,
+  rate: number,
+  method: InterestMethod,
+  gracePeriods: number,
+  balloon: number,
+  pattern: InstallmentPattern
+): number => {
+  const reducing = method === "reducing" && rate > 0;
+  const weight = (index: number) =>
+    reducing ? Math.pow(1 + rate, -(index + 1)) : 1;
+  const target = reducing
+    ? financed * Math.pow(1 + rate, gracePeriods) -
+      balloon * Math.pow(1 + rate, -count)
+    : financed * (1 + rate * (count + gracePeriods)) - balloon;
+
+  let multipliers = 0;
+  let offsets = 0;
+  for (let index = 0; index < count; index++) {
+    const offset = installmentAt(0, index, pattern);
+    multipliers += (installmentAt(1, index, pattern) - offset) * weight(index);
+    offsets += offset * weight(index);
+  }
+  return multipliers > 0 ? (target - offsets) / multipliers : NaN;
+};
+
+/**
+ * Turns a calendar of month overrides into installment overrides: every one
+ * of the `count` installments due in an overridden month gets its override.
+ * Installments are dated as in `buildSchedule`.
+ */
+export const overridesForCalendar = (
+  calendar: MonthOverride[],
+  firstDueDate: Date,
+  count: number,
+  frequency: PaymentFrequency,
+  graceMonths = 0
+): InstallmentOverride[] => {
+  const overrides: InstallmentOverride[] = [];
+  for (let index = 0; index < count; index++) {
+    const month = getMonth(
+      addPeriods(firstDueDate, index, frequency, graceMonths)
+    );
+    const entry = calendar.find((item) => item.month === month);
+    if (entry) {
+      overrides.push({ index, kind: entry.kind, amount: entry.amount });
+    }
+  }
+  return overrides;
+};
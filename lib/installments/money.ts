@@ -0,0 +1,56 @@
+/** An amount of money in integer piasters (1 EGP = 100 piasters). */
+export type Piasters = number;
+
+/**
+ * `half-up` rounds halves away from zero, `half-even` rounds them to the
+ * even neighbour, `up` and `down` round towards positive and negative
+ * infinity.
+ */
+export type RoundingMode = "half-up" | "half-even" | "up" | "down";
+
+export const PIASTERS_PER_POUND = 100;
+export const DEFAULT_ROUNDING_MODE: RoundingMode = "half-up";
+
+// Strips binary noise such as 108332.99999999999 before rounding.
+const clean = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+/** Rounds a fractional piaster value to a whole piaster. */
+export const roundPiasters = (
+  value: number,
+  mode: RoundingMode = DEFAULT_ROUNDING_MODE
+): Piasters => {
+  const x = clean(value);
+  switch (mode) {
+    case "up":
+      return Math.ceil(x);
+    case "down":
+      return Math.floor(x);
+    case "half-even": {
+      const floor = Math.floor(x);
+      const diff = x - floor;
+      if (diff > 0.5) return floor + 1;
+      if (diff < 0.5) return floor;
+      return floor % 2 === 0 ? floor : floor + 1;
+    }
+    case "half-up":
+      return Math.sign(x) * Math.floor(Math.abs(x) + 0.5);
+  }
+};
+
+export const toPiasters = (
+  pounds: number,
+  mode: RoundingMode = DEFAULT_ROUNDING_MODE
+): Piasters => roundPiasters(pounds * PIASTERS_PER_POUND, mode);
+
+export const fromPiasters = (amount: Piasters): number =>
+  amount / PIASTERS_PER_POUND;
+
+/** Rounds an amount to a multiple of `step` piasters, e.g. 500 for 5 EGP. */
+export const roundToStep = (
+  amount: number,
+  step: Piasters,
+  mode: RoundingMode = DEFAULT_ROUNDING_MODE
+): Piasters => {
+  if (step <= 1) return roundPiasters(amount, mode);
+  return roundPiasters(amount / step, mode) * step;
+};
@@ -0,0 +1,55 @@
+import { format } from "date-fns";
+import rateCardData from "./data/rate-cards.json";
+import { DEFAULT_MONTHLY_RATE, DEFAULT_SUGGESTION_PERIODS } from "./engine";
+import type { ProductCategory, RateCard, RateResolver } from "./types";
+
+export const PRODUCT_CATEGORIES: ProductCategory[] = rateCardData.categories;
+export const RATE_CARDS: RateCard[] = rateCardData.rateCards;
+export const DEFAULT_CATEGORY = "general";
+
+/** Periods to suggest for `category`, falling back to the defaults. */
+export const suggestionPeriodsFor = (category: string): number[] =>
+  PRODUCT_CATEGORIES.find((item) => item.id === category)?.suggestionPeriods ??
+  DEFAULT_SUGGESTION_PERIODS;
+
+/**
+ * Returns the card for `category` that is in effect on `date`. When several
+ * cards overlap, the one that started most recently wins.
+ */
+export const findRateCard = (
+  category: string,
+  date: Date = new Date(),
+  cards: RateCard[] = RATE_CARDS
+): RateCard | undefined => {
+  // Local calendar day: toISOString gives the UTC one, a day behind after midnight
+  const day = format(date, "yyyy-MM-dd");
+  return cards
+    .filter(
+      (card) =>
+        card.category === category &&
+        card.effectiveFrom <= day &&
+        (card.effectiveTo === null || day <= card.effectiveTo)
+    )
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+};
+
+/** Rate of the longest band whose `minPeriod` the period reaches. */
+export const rateForPeriod = (card: RateCard, period: number): number => {
+  const bands = [...card.bands].sort((a, b) => a.minPeriod - b.minPeriod);
+  const band = bands.filter((b) => b.minPeriod <= period).pop() ?? bands[0];
+  return band?.monthlyRate ?? DEFAULT_MONTHLY_RATE;
+};
+
+/**
+ * Builds a resolver for the card in effect for `category`, falling back to
+ * `DEFAULT_MONTHLY_RATE` when no card applies.
+ */
+export const createRateResolver = (
+  category: string,
+  date: Date = new Date(),
+  cards: RateCard[] = RATE_CARDS
+): RateResolver => {
+  const card = findRateCard(category, date, cards);
+  return (period) =>
+    card ? rateForPeriod(card, period) : DEFAULT_MONTHLY_RATE;
+};
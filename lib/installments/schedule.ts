@@ -0,0 +1,129 @@
+import { addMonths } from "date-fns";
+import { calculateTotals, planPeriodicRate } from "./engine";
+import { addPeriods } from "./frequency";
+import { patternAmounts } from "./installment-pattern";
+import {
+  DEFAULT_ROUNDING_MODE,
+  roundPiasters,
+  type RoundingMode,
+} from "./money";
+import type { Plan, ScheduleRow } from "./types";
+
+/**
+ * Installment amounts for each period, starting from the `regular` ones.
+ * The `remainderTo` installment takes whatever the others leave over,
+ * except that a fractional period always ends with the smaller installment.
+ */
+const installmentAmounts = (
+  plan: Plan,
+  regular: number[],
+  totalDue: number
+): number[] => {
+  const amounts = [...regular];
+  const adjusted =
+    plan.remainderTo === "first" && Number.isInteger(plan.period)
+      ? 0
+      : amounts.length - 1;
+  const others = amounts.reduce((sum, amount) => sum + amount, 0);
+  amounts[adjusted] = totalDue - (others - amounts[adjusted]);
+  return amounts;
+};
+
+/**
+ * Splits a plan into dated installments, one per `plan.frequency` period,
+ * the first one due on `firstDueDate`. Grace months come first as rows
+ * without an installment; profit charged during them is added to the
+ * balance. A balloon gets its own last row, due with the last installment.
+ * Every amount is in whole piasters and the rows add up to exactly the
+ * financed amount plus the total profit.
+ */
+export const buildSchedule = (
+  plan: Plan,
+  firstDueDate: Date,
+  rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+): ScheduleRow[] => {
+  const { financedAmount, totalProfit } = calculateTotals(plan, rounding);
+  if (financedAmount <= 0 || plan.period <= 0) return [];
+
+  const count = Math.ceil(plan.period);
+  const regular = patternAmounts(plan.installment, count, plan, rounding);
+  const amounts = installmentAmounts(
+    plan,
+    regular,
+    financedAmount + totalProfit - plan.balloon
+  );
+  const rows: ScheduleRow[] = [];
+  let balance = financedAmount;
+  let profitLeft = totalProfit;
+  const rate = planPeriodicRate(plan);
+
+  for (let month = 0; month < plan.grace.months; month++) {
+    const profitBase = plan.method === "reducing" ? balance : financedAmount;
+    const profit = plan.grace.chargeProfit
+      ? roundPiasters(profitBase * plan.monthlyRate, rounding)
+      : 0;
+    balance += profit;
+    profitLeft -= profit;
+    rows.push({
+      number: month + 1,
+      dueDate: addMonths(firstDueDate, month),
+      installment: 0,
+      principal: -profit,
+      profit,
+      balance,
+      isAdjusted: false,
+      isGrace: true,
+      isBalloon: false,
+      override: null,
+    });
+  }
+
+  const offset = plan.grace.months;
+  for (let index = 0; index < count; index++) {
+    let principal: number;
+    let profit: number;
+
+    if (index === count - 1) {
+      principal = balance - plan.balloon;
+      profit = profitLeft;
+    } else {
+      // Flat profit stays on the amount financed, not the grown balance
+      const profitBase = plan.method === "reducing" ? balance : financedAmount;
+      profit = roundPiasters(profitBase * rate, rounding);
+      principal = amounts[index] - profit;
+    }
+
+    balance -= principal;
+    profitLeft -= profit;
+    rows.push({
+      number: offset + index + 1,
+      dueDate: addPeriods(firstDueDate, index, plan.frequency, offset),
+      installment: principal + profit,
+      principal,
+      profit,
+      balance,
+      isAdjusted: principal + profit !== regular[index],
+      isGrace: false,
+      isBalloon: false,
+      override:
+        plan.overrides.find((item) => item.index === index)?.kind ?? null,
+    });
+  }
+
+  if (plan.balloon > 0) {
+    rows.push({
+      number: offset + count + 1,
+      dueDate: addPeriods(firstDueDate, count - 1, plan.frequency, offset),
+      installment: plan.balloon,
+      principal: plan.balloon,
+      profit: 0,
+      balance: 0,
+      isAdjusted: false,
+      isGrace: false,
+      isBalloon: true,
+      override: null,
+    });
+  }
+
+  return rows;
+};
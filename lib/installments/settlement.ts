@@ -0,0 +1,74 @@
+import { roundPiasters } from "./money";
+import type { RebateRule, ScheduleRow, SettlementBreakdown } from "./types";
+
+/** Profit refunded for settling with `remaining` of `count` months left. */
+const rebateFor = (
+  rule: RebateRule,
+  totalProfit: number,
+  count: number,
+  remaining: number
+): number => {
+  switch (rule.method) {
+    case "none":
+      return 0;
+    case "pro-rata":
+      return (totalProfit * remaining) / count;
+    case "rule-of-78":
+      // Sum of the digits of the months left over the sum for the full term
+      return (
+        (totalProfit * remaining * (remaining + 1)) / (count * (count + 1))
+      );
+    case "percentage":
+      return ((rule.share ?? 0) * totalProfit * remaining) / count;
+  }
+};
+
+/**
+ * Amount that settles a plan after its first `paidCount` installments,
+ * not counting grace months; a balloon is always still outstanding. The
+ * rebate never exceeds the profit still in the schedule, so the payoff
+ * always covers the outstanding principal.
+ */
+export const settleEarly = (
+  rows: ScheduleRow[],
+  paidCount: number,
+  rule: RebateRule
+): SettlementBreakdown => {
+  const installments = rows.filter((row) => !row.isGrace && !row.isBalloon);
+  const count = installments.length;
+  const paid = Math.min(Math.max(0, Math.floor(paidCount)), count);
+  const remainingRows = [
+    ...installments.slice(paid),
+    ...rows.filter((row) => row.isBalloon),
+  ];
+  const totalProfit = rows.reduce((sum, row) => sum + row.profit, 0);
+
+  const outstandingPrincipal = remainingRows.reduce(
+    (sum, row) => sum + row.principal,
+    0
+  );
+  const remainingProfit = remainingRows.reduce(
+    (sum, row) => sum + row.profit,
+    0
+  );
+  const rebate =
+    count === 0
+      ? 0
+      : Math.min(
+          remainingProfit,
+          roundPiasters(
+            rebateFor(rule, totalProfit, count, count - paid),
+            "down"
+          )
+        );
+
+  return {
+    paidCount: paid,
+    remainingCount: count - paid,
+    outstandingPrincipal,
+    remainingProfit,
+    rebate,
+    payoffAmount: outstandingPrincipal + remainingProfit - rebate,
+    continuingCost: outstandingPrincipal + remainingProfit,
+  };
+};
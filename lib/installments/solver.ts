@@ -0,0 +1,31 @@
+const MAX_ITERATIONS = 200;
+
+/**
+ * Finds a root of `fn` between `low` and `high` by bisection. Returns null
+ * when the function does not change sign over the interval.
+ */
+export const findRoot = (
+  fn: (x: number) => number,
+  low: number,
+  high: number,
+  tolerance = 1e-10
+): number | null => {
+  let fLow = fn(low);
+  const fHigh = fn(high);
+  if (fLow === 0) return low;
+  if (fHigh === 0) return high;
+  if (fLow * fHigh > 0) return null;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    const fMid = fn(mid);
+    if (fMid === 0 || (high - low) / 2 < tolerance) return mid;
+    if (fLow * fMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      fLow = fMid;
+    }
+  }
+  return (low + high) / 2;
+};
@@ -0,0 +1,457 @@
+import type { Piasters, RoundingMode } from "./money";
+
+export type PlanField = "price" | "down" | "period" | "installment" | "rate";
+
+/**
+ * `flat` charges the monthly rate on the full financed amount for every
+ * month; `reducing` charges it on the outstanding balance (annuity).
+ */
+export type InterestMethod = "flat" | "reducing";
+
+/** How often installments fall due; `period` counts installments. */
+export type PaymentFrequency =
+  "weekly" | "biweekly" | "monthly" | "quarterly" | "semiannual";
+
+/**
+ * Months at the start of the plan with no installment due. With
+ * `chargeProfit` the financed amount earns profit during those months too.
+ */
+export interface GracePeriod {
+  months: number;
+  chargeProfit: boolean;
+}
+
+/**
+ * Lump sum due with the last installment, which the regular installments
+ * then no longer cover: a fixed `amount` in piasters or a `share` of the
+ * price.
+ */
+export type BalloonPayment =
+  { kind: "amount"; amount: Piasters } | { kind: "share"; share: number };
+
+/**
+ * Graduated installments: every `every` installments the installment
+ * changes by `step`, a fraction of itself for `percent` or piasters for
+ * `amount`. A negative step gives a front-loaded (step-down) plan.
+ */
+export interface GraduatedPayment {
+  every: number;
+  kind: "percent" | "amount";
+  step: number;
+}
+
+/** `skip` leaves an installment unpaid; `bonus` adds `amount` to it. */
+export type OverrideKind = "skip" | "bonus";
+
+/** Change to the regular installment at 0-based `index`. */
+export interface InstallmentOverride {
+  index: number;
+  kind: OverrideKind;
+  /** Extra piasters paid with a `bonus` installment; ignored for `skip`. */
+  amount: Piasters;
+}
+
+/** Override for every installment due in calendar `month` (0 = January). */
+export interface MonthOverride {
+  month: number;
+  kind: OverrideKind;
+  amount: Piasters;
+}
+
+/** Charge on a quote besides the price and the profit. */
+export type FeeType = "admin" | "insurance" | "life-insurance" | "stamp-duty";
+
+/**
+ * A `fixed` fee, or one worked out as a fraction of the `price` or of the
+ * `financed` amount (price less down payment).
+ */
+export type FeeBasis = "fixed" | "price" | "financed";
+
+/**
+ * `upfront` fees are paid with the down payment; `financed` ones are added
+ * to the financed amount and paid off, with profit, by the installments.
+ */
+export type FeePayment = "upfront" | "financed";
+
+export interface FeeRule {
+  type: FeeType;
+  basis: FeeBasis;
+  /** Piasters for a `fixed` fee, otherwise a fraction, e.g. 0.01 for 1%. */
+  value: number;
+  payment: FeePayment;
+}
+
+/** Amount a fee rule comes to for a plan. */
+export interface FeeCharge {
+  type: FeeType;
+  payment: FeePayment;
+  amount: Piasters;
+}
+
+/** Money amounts throughout the engine are integer piasters. */
+export interface PlanInput {
+  price?: Piasters;
+  downPayment?: Piasters;
+  period?: number;
+  installment?: Piasters;
+  /** Monthly profit rate as a fraction, e.g. 0.04 for 4%. */
+  monthlyRate?: number;
+  method?: InterestMethod;
+  grace?: GracePeriod;
+  frequency?: PaymentFrequency;
+  balloon?: BalloonPayment;
+  graduation?: GraduatedPayment;
+  overrides?: InstallmentOverride[];
+  fees?: FeeRule[];
+}
+
+/** Installment that absorbs rounding differences. */
+export type RemainderPosition = "first" | "last";
+
+/**
+ * `final-installment` keeps the regular installment and ends with a smaller
+ * one; `up` and `down` round to whole months and re-solve the installment.
+ */
+export type PeriodRounding = "final-installment" | "up" | "down";
+
+export interface InstallmentRounding {
+  /** Step the regular installment is rounded to, e.g. 500 for 5 EGP. */
+  step: Piasters;
+  /** `up` never lowers the installment; `half-up` picks the nearest step. */
+  mode: RoundingMode;
+  remainderTo: RemainderPosition;
+}
+
+export interface Plan {
+  price: Piasters;
+  downPayment: Piasters;
+  period: number;
+  installment: Piasters;
+  monthlyRate: number;
+  method: InterestMethod;
+  grace: GracePeriod;
+  frequency: PaymentFrequency;
+  /** Balloon payment due with the last installment; 0 for none. */
+  balloon: Piasters;
+  /** Null for level installments; when set, `installment` is the first one. */
+  graduation: GraduatedPayment | null;
+  /** Skipped and bonus installments; `installment` is a regular one. */
+  overrides: InstallmentOverride[];
+  fees: FeeRule[];
+  remainderTo: RemainderPosition;
+  /**
+   * Amount added to the `remainderTo` installment so the installments add
+   * up to the total with profit. Zero when the installment was not solved.
+   */
+  adjustment: Piasters;
+}
+
+/** What shapes a plan's installments besides the regular amount. */
+export type InstallmentPattern = Pick<Plan, "graduation" | "overrides">;
+
+export interface PlanTotals {
+  /** Price less down payment, plus the financed fees. */
+  financedAmount: Piasters;
+  totalProfit: Piasters;
+  /** Price plus fees and profit: everything the customer owes. */
+  totalWithProfit: Piasters;
+  totalPaid: Piasters;
+  missingAmount: Piasters;
+  /** Number of installments, counting a reduced final one. */
+  installmentCount: number;
+  /** Amount of the last installment, which can differ from the regular one. */
+  finalInstallment: Piasters;
+  fees: FeeCharge[];
+  /** Fees paid with the down payment. */
+  upfrontFees: Piasters;
+  /** Fees added to the financed amount. */
+  financedFees: Piasters;
+}
+
+export interface RateDisclosure {
+  /** Monthly equivalent of the internal rate of return of the cash flows. */
+  monthlyRate: number;
+  /** Nominal annual rate: the IRR per installment period times periods a year. */
+  apr: number;
+  /** Compounded annual rate: (1 + period IRR)^(periods a year) - 1. */
+  effectiveAnnualRate: number;
+}
+
+export interface ScheduleRow {
+  /** 1-based installment number. */
+  number: number;
+  dueDate: Date;
+  installment: Piasters;
+  principal: Piasters;
+  profit: Piasters;
+  /** Principal still outstanding after this installment. */
+  balance: Piasters;
+  /** True when the amount differs from the plan's regular installment. */
+  isAdjusted: boolean;
+  /** True for a grace month, which has no installment. */
+  isGrace: boolean;
+  /** True for the balloon payment, the last row of a balloon plan. */
+  isBalloon: boolean;
+  /** Override applied to this installment, if any. */
+  override: OverrideKind | null;
+}
+
+export type PlanWarningCode =
+  | "insufficient-inputs"
+  | "invalid-price"
+  | "invalid-down-payment"
+  | "invalid-period"
+  | "invalid-installment"
+  | "invalid-rate"
+  | "invalid-method"
+  | "invalid-grace"
+  | "invalid-frequency"
+  | "invalid-balloon"
+  | "balloon-exceeds-financed"
+  | "invalid-graduation"
+  | "graduation-needs-installment"
+  | "invalid-overrides"
+  | "overrides-need-installment"
+  | "all-installments-skipped"
+  | "installment-not-positive"
+  | "invalid-fees"
+  | "down-exceeds-price"
+  | "down-below-minimum"
+  | "negative-down-payment"
+  | "installment-too-low"
+  | "rate-not-found"
+  | "rounding-step-too-large"
+  | "fractional-period"
+  | "shortfall";
+
+/**
+ * `error` means no plan could be produced, `warning` that the plan has a
+ * problem the user should fix, and `info` that it is worth pointing out.
+ */
+export type WarningSeverity = "error" | "warning" | "info";
+
+export interface PlanWarning {
+  code: PlanWarningCode;
+  severity: WarningSeverity;
+  field?: PlanField;
+  params?: Record<string, number>;
+}
+
+export interface ProductCategory {
+  id: string;
+  name: string;
+  /** Periods offered as suggestions; `DEFAULT_SUGGESTION_PERIODS` if absent. */
+  suggestionPeriods?: number[];
+}
+
+export interface RateBand {
+  /** Shortest period (in months) this band applies to. */
+  minPeriod: number;
+  monthlyRate: number;
+}
+
+export interface RateCard {
+  id: string;
+  category: string;
+  /** ISO date (yyyy-mm-dd) the card starts applying on. */
+  effectiveFrom: string;
+  /** ISO date of the last day the card applies, or null if open-ended. */
+  effectiveTo: string | null;
+  bands: RateBand[];
+}
+
+/**
+ * Smallest down payment, as a share of the price, for plans of `category`
+ * (every category when null) that last at least `minPeriod` months.
+ */
+export interface DownPaymentPolicy {
+  category: string | null;
+  minPeriod: number;
+  minShare: number;
+}
+
+/** Monthly rate to charge for a plan of `period` months. */
+export type RateResolver = (period: number) => number;
+
+export interface SolveOptions {
+  /**
+   * Field to solve for. Defaults to the single field missing from the input;
+   * null checks the plan as given without solving anything.
+   */
+  solveFor?: PlanField | null;
+  /** Picks the rate per period when the input has no `monthlyRate`. */
+  rateFor?: RateResolver;
+  /** How solved amounts and profit are rounded to whole piasters. */
+  rounding?: RoundingMode;
+  /** How a solved installment is rounded for the customer. */
+  installmentRounding?: InstallmentRounding;
+  /** What to do when solving the period gives a fraction of an installment. */
+  periodRounding?: PeriodRounding;
+}
+
+export interface SuggestOptions {
+  periods?: number[];
+  rate?: number | RateResolver;
+  method?: InterestMethod;
+  installmentRounding?: InstallmentRounding;
+  grace?: GracePeriod;
+  frequency?: PaymentFrequency;
+  balloon?: BalloonPayment;
+  graduation?: GraduatedPayment;
+  fees?: FeeRule[];
+}
+
+export type SolveResult =
+  | {
+      ok: true;
+      solvedFor: PlanField | null;
+      plan: Plan;
+      totals: PlanTotals;
+      disclosure: RateDisclosure;
+      warnings: PlanWarning[];
+    }
+  | {
+      ok: false;
+      solvedFor: PlanField | null;
+      warnings: PlanWarning[];
+    };
+
+export interface BudgetSuggestOptions extends SuggestOptions {
+  /** Down payments to try, as fractions of the price. */
+  downPaymentShares?: number[];
+}
+
+export interface Suggestion {
+  period: number;
+  installment: Piasters;
+  /** Largest installment; above `installment` for a step-up plan. */
+  maxInstallment: Piasters;
+  monthlyRate: number;
+  disclosure: RateDisclosure;
+}
+
+/** One down payment of the what-if matrix, with a suggestion per period. */
+export interface WhatIfRow {
+  /** Down payment as a fraction of the price. */
+  share: number;
+  downPayment: Piasters;
+  /** Periods a step-down would take to zero or below have no cell. */
+  cells: Suggestion[];
+}
+
+export interface BudgetSuggestion extends Suggestion {
+  downPayment: Piasters;
+  /** Down payment plus every installment: what the customer pays in all. */
+  totalCost: Piasters;
+}
+
+export interface CompetitorOffer {
+  price: Piasters;
+  downPayment: Piasters;
+  installment: Piasters;
+  period: number;
+}
+
+export interface OfferComparison {
+  /** Monthly flat rate that reproduces the offer's installment. */
+  impliedFlatRate: number;
+  offerDisclosure: RateDisclosure;
+  ourRate: number;
+  ourInstallment: Piasters;
+  ourDisclosure: RateDisclosure;
+  /** Positive when our installment is lower than the offer's. */
+  installmentSaving: Piasters;
+}
+
+export interface AffordabilityProfile {
+  monthlyIncome: Piasters;
+  /** Installments the customer already pays every month. */
+  obligations: Piasters;
+  /** Largest share of income all installments may take, e.g. 0.5. */
+  maxDebtBurden: number;
+}
+
+export interface AffordabilityCheck {
+  /** Largest new installment the profile leaves room for. */
+  maxInstallment: Piasters;
+  /** Share of income taken by existing obligations plus the installment. */
+  debtBurden: number;
+  affordable: boolean;
+}
+
+export interface AffordablePrice {
+  period: number;
+  monthlyRate: number;
+  maxInstallment: Piasters;
+  /**
+   * Highest cash price the monthly `maxInstallment` can finance over
+   * `period` installments.
+   */
+  maxPrice: Piasters;
+}
+
+/**
+ * How much of the profit not yet due is refunded on early settlement:
+ * `pro-rata` refunds it in proportion to the months left, `rule-of-78`
+ * by the sum of the months' digits, and `percentage` a fixed share of the
+ * pro-rata amount.
+ */
+export type RebateMethod = "none" | "pro-rata" | "rule-of-78" | "percentage";
+
+export interface RebateRule {
+  method: RebateMethod;
+  /** Share refunded by the `percentage` method, e.g. 0.5. */
+  share?: number;
+}
+
+export interface SettlementBreakdown {
+  paidCount: number;
+  remainingCount: number;
+  outstandingPrincipal: Piasters;
+  /** Profit in the installments still to pay. */
+  remainingProfit: Piasters;
+  rebate: Piasters;
+  /** Outstanding principal plus the remaining profit less the rebate. */
+  payoffAmount: Piasters;
+  /** What the remaining installments would cost if the plan continued. */
+  continuingCost: Piasters;
+}
+
+export interface PaymentRecord {
+  date: Date;
+  amount: Piasters;
+}
+
+/**
+ * Late fee charged per overdue installment: `fixed` once, plus `dailyRate`
+ * of the unpaid amount for every day it is late, limited to `cap`. No fee is
+ * charged when the installment is paid in full within `graceDays`.
+ */
+export interface LateFeeRule {
+  fixed: Piasters;
+  dailyRate: number;
+  cap: Piasters | null;
+  graceDays: number;
+}
+
+export interface ArrearsRow {
+  number: number;
+  dueDate: Date;
+  installment: Piasters;
+  paid: Piasters;
+  /** Unpaid part of the installment on the as-of date. */
+  outstanding: Piasters;
+  /** Date the installment was paid in full, or null if it has not been. */
+  paidOn: Date | null;
+  daysOverdue: number;
+  lateFee: Piasters;
+}
+
+export interface ArrearsSummary {
+  rows: ArrearsRow[];
+  /** Installments due by the as-of date and still unpaid. */
+  overdueAmount: Piasters;
+  lateFees: Piasters;
+  totalArrears: Piasters;
+  maxDaysOverdue: number;
+}
@@ -0,0 +1,190 @@
+import { z } from "zod";
+import type {
+  PlanField,
+  PlanInput,
+  PlanWarning,
+  PlanWarningCode,
+} from "./types";
+
+// The zod message of every check is the warning code it maps to.
+const amount = (code: PlanWarningCode) =>
+  z.number({ message: code }).int({ message: code });
+
+export const priceSchema = amount("invalid-price").positive({
+  message: "invalid-price",
+});
+export const downPaymentSchema = amount("invalid-down-payment").nonnegative({
+  message: "invalid-down-payment",
+});
+export const periodSchema = z
+  .number({ message: "invalid-period" })
+  .finite({ message: "invalid-period" })
+  .positive({ message: "invalid-period" });
+export const installmentSchema = amount("invalid-installment").positive({
+  message: "invalid-installment",
+});
+export const monthlyRateSchema = z
+  .number({ message: "invalid-rate" })
+  .finite({ message: "invalid-rate" })
+  .min(0, { message: "invalid-rate" })
+  .max(1, { message: "invalid-rate" });
+export const interestMethodSchema = z.enum(["flat", "reducing"], {
+  message: "invalid-method",
+});
+
+export const frequencySchema = z.enum(
+  ["weekly", "biweekly", "monthly", "quarterly", "semiannual"],
+  { message: "invalid-frequency" }
+);
+
+export const graceSchema = z.object(
+  {
+    months: z
+      .number({ message: "invalid-grace" })
+      .int({ message: "invalid-grace" })
+      .nonnegative({ message: "invalid-grace" }),
+    chargeProfit: z.boolean({ message: "invalid-grace" }),
+  },
+  { message: "invalid-grace" }
+);
+
+export const balloonSchema = z.discriminatedUnion(
+  "kind",
+  [
+    z.object({
+      kind: z.literal("amount"),
+      amount: amount("invalid-balloon").nonnegative({
+        message: "invalid-balloon",
+      }),
+    }),
+    z.object({
+      kind: z.literal("share"),
+      share: z
+        .number({ message: "invalid-balloon" })
+        .min(0, { message: "invalid-balloon" })
+        .lt(1, { message: "invalid-balloon" }),
+    }),
+  ],
+  { message: "invalid-balloon" }
+);
+
+export const graduationSchema = z
+  .object(
+    {
+      every: z
+        .number({ message: "invalid-graduation" })
+        .int({ message: "invalid-graduation" })
+        .positive({ message: "invalid-graduation" }),
+      kind: z.enum(["percent", "amount"], { message: "invalid-graduation" }),
+      step: z
+        .number({ message: "invalid-graduation" })
+        .finite({ message: "invalid-graduation" }),
+    },
+    { message: "invalid-graduation" }
+  )
+  // A step down of 100% or more would leave nothing to pay
+  .refine(
+    (graduation) => graduation.kind === "amount" || graduation.step > -1,
+    { message: "invalid-graduation" }
+  );
+
+export const overridesSchema = z.array(
+  z.object({
+    index: z
+      .number({ message: "invalid-overrides" })
+      .int({ message: "invalid-overrides" })
+      .nonnegative({ message: "invalid-overrides" }),
+    kind: z.enum(["skip", "bonus"], { message: "invalid-overrides" }),
+    amount: amount("invalid-overrides").nonnegative({
+      message: "invalid-overrides",
+    }),
+  }),
+  { message: "invalid-overrides" }
+);
+
+export const feesSchema = z.array(
+  z
+    .object({
+      type: z.enum(["admin", "insurance", "life-insurance", "stamp-duty"], {
+        message: "invalid-fees",
+      }),
+      basis: z.enum(["fixed", "price", "financed"], {
+        message: "invalid-fees",
+      }),
+      value: z
+        .number({ message: "invalid-fees" })
+        .nonnegative({ message: "invalid-fees" }),
+      payment: z.enum(["upfront", "financed"], { message: "invalid-fees" }),
+    })
+    // A fixed fee is an amount in whole piasters
+    .refine((fee) => fee.basis !== "fixed" || Number.isInteger(fee.value), {
+      message: "invalid-fees",
+    }),
+  { message: "invalid-fees" }
+);
+
+export const planInputSchema = z.object({
+  price: priceSchema.optional(),
+  downPayment: downPaymentSchema.optional(),
+  period: periodSchema.optional(),
+  installment: installmentSchema.optional(),
+  monthlyRate: monthlyRateSchema.optional(),
+  method: interestMethodSchema.optional(),
+  grace: graceSchema.optional(),
+  frequency: frequencySchema.optional(),
+  balloon: balloonSchema.optional(),
+  graduation: graduationSchema.optional(),
+  overrides: overridesSchema.optional(),
+  fees: feesSchema.optional(),
+});
+
+const INPUT_FIELDS: Record<keyof PlanInput, PlanField | undefined> = {
+  price: "price",
+  downPayment: "down",
+  period: "period",
+  installment: "installment",
+  monthlyRate: "rate",
+  method: undefined,
+  grace: undefined,
+  frequency: undefined,
+  balloon: undefined,
+  graduation: undefined,
+  overrides: undefined,
+  fees: undefined,
+};
+
+const INPUT_KEYS: Record<PlanField, keyof PlanInput> = {
+  price: "price",
+  down: "downPayment",
+  period: "period",
+  installment: "installment",
+  rate: "monthlyRate",
+};
+
+/**
+ * Checks the values of a partial plan, one error per invalid field. The
+ * field being solved for is ignored, and missing fields are left to
+ * `solvePlan`, which knows which ones the unknown needs.
+ */
+export const validatePlanInput = (
+  input: PlanInput,
+  solveFor: PlanField | null = null
+): PlanWarning[] => {
+  const given = { ...input };
+  if (solveFor) delete given[INPUT_KEYS[solveFor]];
+
+  const parsed = planInputSchema.safeParse(given);
+  if (parsed.success) return [];
+
+  const warnings: PlanWarning[] = [];
+  for (const issue of parsed.error.issues) {
+    const key = issue.path[0] as keyof PlanInput;
+    if (warnings.some((warning) => warning.code === issue.message)) continue;
+    warnings.push({
+      code: issue.message as PlanWarningCode,
+      severity: "error",
+      field: INPUT_FIELDS[key],
+    });
+  }
+  return warnings;
+};
@@ -0,0 +1,172 @@
+import { formatMoney } from "@/lib/format";
+import type {
+  PlanField,
+  PlanWarning,
+  PlanWarningCode,
+} from "@/lib/installments";
+
+export type Locale = "ar" | "en";
+
+export const DEFAULT_LOCALE: Locale = "ar";
+
+type Params = Record<string, number>;
+type Money = (amount: number) => string;
+
+interface MessageCatalog {
+  fields: Record<PlanField, string>;
+  messages: Record<
+    PlanWarningCode,
+    (params: Params, field: string | undefined, money: Money) => string
+  >;
+}
+
+const INTL_LOCALES: Record<Locale, string> = {
+  ar: "ar-EG",
+  en: "en-EG",
+};
+
+const CATALOGS: Record<Locale, MessageCatalog> = {
+  ar: {
+    fields: {
+      price: "سعر الشراء",
+      down: "المقدم",
+      period: "فترة السداد",
+      installment: "القسط",
+      rate: "نسبة الربح",
+    },
+    messages: {
+      "insufficient-inputs": (_, field) =>
+        field
+          ? `يجب إدخال ${field}`
+          : "يجب ملء كل الحقول عدا الحقل المطلوب حسابه",
+      "invalid-price": () => "يجب إدخال سعر شراء أكبر من صفر",
+      "invalid-down-payment": () => "لا يمكن أن يكون المقدم أقل من صفر",
+      "invalid-period": () => "يجب إدخال فترة سداد أكبر من صفر",
+      "invalid-installment": () => "يجب إدخال قسط أكبر من صفر",
+      "invalid-rate": () => "نسبة الربح الشهرية يجب أن تكون بين 0% و100%",
+      "invalid-method": () => "طريقة حساب الربح غير معروفة",
+      "invalid-grace": () => "فترة السماح يجب أن تكون عدداً صحيحاً من الشهور",
+      "invalid-frequency": () => "دورية السداد غير معروفة",
+      "invalid-balloon": () =>
+        "الدفعة الأخيرة يجب أن تكون مبلغاً موجباً أو نسبة أقل من 100% من السعر",
+      "balloon-exceeds-financed": () =>
+        "الدفعة الأخيرة يجب أن تكون أقل من المبلغ الممول",
+      "invalid-graduation": () =>
+        "تدرج القسط يجب أن يكون كل عدد صحيح من الأقساط، والتخفيض أقل من 100%",
+      "graduation-needs-installment": () =>
+        "الأقساط المتدرجة تحسب القسط الأول فقط، لمدة بعدد صحيح من الأقساط",
+      "invalid-overrides": () => "مبالغ الشهور الإضافية يجب أن تكون موجبة",
+      "overrides-need-installment": () =>
+        "تأجيل الأقساط والدفعات الإضافية تحسب القسط فقط، لمدة بعدد صحيح من الأقساط",
+      "all-installments-skipped": () =>
+        "لا يمكن تأجيل كل الأقساط: يجب أن يبقى قسط واحد على الأقل",
+      "installment-not-positive": () =>
+        "أحد الأقساط يصل إلى صفر أو أقل: قلل الدفعات الإضافية أو قيمة التخفيض التدريجي",
+      "invalid-fees": () => "الرسوم يجب أن تكون مبالغ أو نسباً موجبة",
+      "down-exceeds-price": () => "المقدم أكبر من سعر الشراء أو يساويه",
+      "down-below-minimum": (params, _, money) =>
+        `المقدم أقل من الحد الأدنى لهذه الفئة والمدة (${Number(
+          ((params.share ?? 0) * 100).toFixed(2)
+        )}% من السعر): ${money(params.minimum ?? 0)} جنيه`,
+      "negative-down-payment": (params, _, money) =>
+        `لا توجد دفعة مقدمة تناسب هذه الخطة: القسط المتاح أكبر من المطلوب حتى بدون مقدم. القسط بدون مقدم: ${money(
+          params.installmentWithoutDown ?? 0
+        )} جنيه`,
+      "installment-too-low": (params, _, money) =>
+        `القسط لا يكفي لسداد المبلغ المتبقي مهما طالت المدة. أقل قسط ممكن: ${money(
+          params.minimum ?? 0
+        )} جنيه`,
+      "rate-not-found": () =>
+        "لا توجد نسبة ربح بين 0% و100% تناسب هذه الأقساط: الأقساط لا تغطي المبلغ الممول أو تتجاوزه بكثير",
+      "rounding-step-too-large": (params, _, money) =>
+        `التقريب لأقرب ${money(
+          params.step ?? 0
+        )} جنيه يجعل القسط الذي يتحمل فرق التقريب صفراً أو أقل: اختر تقريباً أصغر`,
+      "fractional-period": (params) =>
+        `المدة المحسوبة ${Number((params.period ?? 0).toFixed(2))} قسط، والقسط الأخير أقل من باقي الأقساط`,
+      shortfall: (params, _, money) =>
+        `المبلغ غير كافي لتغطية سعر المنتج. تحتاج إلى: ${money(
+          params.missingAmount ?? 0
+        )} جنيه`,
+    },
+  },
+  en: {
+    fields: {
+      price: "the purchase price",
+      down: "the down payment",
+      period: "the repayment period",
+      installment: "the installment",
+      rate: "the profit rate",
+    },
+    messages: {
+      "insufficient-inputs": (_, field) =>
+        field
+          ? `Enter ${field}`
+          : "Fill in every field except the one being calculated",
+      "invalid-price": () => "The purchase price must be greater than zero",
+      "invalid-down-payment": () => "The down payment cannot be negative",
+      "invalid-period": () => "The repayment period must be greater than zero",
+      "invalid-installment": () => "The installment must be greater than zero",
+      "invalid-rate": () =>
+        "The monthly profit rate must be between 0% and 100%",
+      "invalid-method": () => "Unknown profit method",
+      "invalid-grace": () =>
+        "The grace period must be a whole number of months",
+      "invalid-frequency": () => "Unknown payment frequency",
+      "invalid-balloon": () =>
+        "The balloon payment must be a positive amount or a share of the price below 100%",
+      "balloon-exceeds-financed": () =>
+        "The balloon payment must be less than the amount financed",
+      "invalid-graduation": () =>
+        "Installments must step every whole number of installments, and step down by less than 100%",
+      "graduation-needs-installment": () =>
+        "Graduated plans only solve for the first installment, over a whole number of installments",
+      "invalid-overrides": () => "Bonus amounts must not be negative",
+      "overrides-need-installment": () =>
+        "Skipped and bonus months only solve for the installment, over a whole number of installments",
+      "all-installments-skipped": () =>
+        "Not every installment can be skipped: at least one must remain",
+      "installment-not-positive": () =>
+        "An installment comes to zero or below; lower the bonus payments or the step-down",
+      "invalid-fees": () => "Fees must be positive amounts or percentages",
+      "down-exceeds-price": () =>
+        "The down payment is not less than the purchase price",
+      "down-below-minimum": (params, _, money) =>
+        `The down payment is below the minimum for this category and period (${Number(
+          ((params.share ?? 0) * 100).toFixed(2)
+        )}% of the price): EGP ${money(params.minimum ?? 0)}`,
+      "negative-down-payment": (params, _, money) =>
+        `No down payment fits this plan: the installment covers more than the price even without one. Installment with no down payment: EGP ${money(
+          params.installmentWithoutDown ?? 0
+        )}`,
+      "installment-too-low": (params, _, money) =>
+        `The installment can never pay off the balance. Minimum installment: EGP ${money(
+          params.minimum ?? 0
+        )}`,
+      "rate-not-found": () =>
+        "No profit rate between 0% and 100% fits these installments: they fall short of the amount financed or far exceed it",
+      "rounding-step-too-large": (params, _, money) =>
+        `Rounding to the nearest EGP ${money(
+          params.step ?? 0
+        )} leaves the installment that takes the difference at zero or below; choose a smaller step`,
+      "fractional-period": (params) =>
+        `The period works out to ${Number((params.period ?? 0).toFixed(2))} installments, so the final installment is smaller`,
+      shortfall: (params, _, money) =>
+        `The payments do not cover the price. Missing: EGP ${money(
+          params.missingAmount ?? 0
+        )}`,
+    },
+  },
+};
+
+/** Renders a plan warning as a sentence in `locale`. */
+export const formatWarning = (
+  warning: PlanWarning,
+  locale: Locale = DEFAULT_LOCALE
+): string => {
+  const catalog = CATALOGS[locale];
+  const field = warning.field ? catalog.fields[warning.field] : undefined;
+  return catalog.messages[warning.code](warning.params ?? {}, field, (amount) =>
+    formatMoney(amount, INTL_LOCALES[locale])
+  );
+};